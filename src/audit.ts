@@ -0,0 +1,173 @@
+import { appendFileSync, createReadStream, existsSync, mkdirSync, readdirSync, statSync, unlinkSync } from "fs";
+import { join } from "path";
+import { createInterface } from "readline";
+
+// Append-only audit log of proxied API calls.
+//
+// Records are written as JSON lines into one file per UTC day
+// (audit-YYYY-MM-DD.jsonl). Retention deletes whole day files: those older
+// than `retentionDays`, then the oldest ones while the total exceeds `maxBytes`.
+
+export interface AuditRecord {
+  timestamp: string;
+  apiKey: string;
+  sessionId?: string;
+  service: string;
+  // Set when the call went to a named environment of the service
+  env?: string;
+  method: string;
+  path: string;
+  requestBody?: unknown;
+  status?: number;
+  latencyMs: number;
+  error?: string;
+  // Answered by the mock server, not the service
+  mocked?: boolean;
+}
+
+export interface AuditQuery {
+  service?: string;
+  apiKey?: string;
+  statusMin?: number;
+  statusMax?: number;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  // Only records of services the caller may see
+  canAccess?: (service: string) => boolean;
+}
+
+export interface AuditLogOptions {
+  dir: string;
+  retentionDays: number;
+  maxBytes: number;
+  // Body fields (any depth, case-insensitive) replaced before writing
+  redactFields: string[];
+}
+
+export function loadAuditOptions(): AuditLogOptions {
+  return {
+    dir: process.env.AUDIT_DIR || "data/audit",
+    retentionDays: Number(process.env.AUDIT_RETENTION_DAYS) || 30,
+    maxBytes: Number(process.env.AUDIT_MAX_BYTES) || 100 * 1024 * 1024,
+    redactFields: (process.env.AUDIT_REDACT_FIELDS ||
+      "password,secret,token,accessToken,refreshToken,apiKey,api_key,authorization,creditCard,ssn")
+      .split(",")
+      .map((f) => f.trim().toLowerCase())
+      .filter(Boolean),
+  };
+}
+
+const FILE_PATTERN = /^audit-(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+export function createAuditLog(options: AuditLogOptions) {
+  const redactFields = new Set(options.redactFields);
+  let lastPrune = 0;
+
+  function redactBody(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(redactBody);
+    if (!value || typeof value !== "object") return value;
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) =>
+        redactFields.has(key.toLowerCase()) ? [key, "[REDACTED]"] : [key, redactBody(child)]
+      )
+    );
+  }
+
+  // Day files, oldest first
+  function files(): Array<{ name: string; day: string }> {
+    if (!existsSync(options.dir)) return [];
+    return readdirSync(options.dir)
+      .map((name) => ({ name, match: name.match(FILE_PATTERN) }))
+      .filter((f) => f.match)
+      .map((f) => ({ name: f.name, day: f.match![1] }))
+      .sort((a, b) => a.day.localeCompare(b.day));
+  }
+
+  function prune() {
+    const cutoff = new Date(Date.now() - options.retentionDays * 86_400_000).toISOString().slice(0, 10);
+    const remaining = files().filter((f) => {
+      if (f.day >= cutoff) return true;
+      unlinkSync(join(options.dir, f.name));
+      return false;
+    });
+
+    let total = remaining.reduce((sum, f) => sum + statSync(join(options.dir, f.name)).size, 0);
+    // Never delete today's file, even when it alone exceeds the limit
+    while (total > options.maxBytes && remaining.length > 1) {
+      const oldest = remaining.shift()!;
+      const path = join(options.dir, oldest.name);
+      total -= statSync(path).size;
+      unlinkSync(path);
+    }
+  }
+
+  function record(entry: AuditRecord) {
+    try {
+      mkdirSync(options.dir, { recursive: true });
+      const line = JSON.stringify({ ...entry, requestBody: redactBody(entry.requestBody) });
+      appendFileSync(join(options.dir, `audit-${entry.timestamp.slice(0, 10)}.jsonl`), `${line}\n`);
+
+      if (Date.now() - lastPrune > 60 * 60_000) {
+        lastPrune = Date.now();
+        prune();
+      }
+    } catch (err) {
+      console.error("Failed to write audit record:", err);
+    }
+  }
+
+  function matches(entry: AuditRecord, filter: AuditQuery): boolean {
+    const time = Date.parse(entry.timestamp);
+    if (filter.from && time < filter.from.getTime()) return false;
+    if (filter.to && time > filter.to.getTime()) return false;
+    if (filter.service && entry.service !== filter.service) return false;
+    if (filter.apiKey && entry.apiKey !== filter.apiKey) return false;
+    if (filter.statusMin !== undefined && (entry.status ?? 0) < filter.statusMin) return false;
+    if (filter.statusMax !== undefined && (entry.status ?? 0) > filter.statusMax) return false;
+    return !filter.canAccess || filter.canAccess(entry.service);
+  }
+
+  // Newest first. Day files are read line by line without blocking; a file's
+  // matches are buffered to reverse them (only the newest `limit` when set).
+  async function* entries(filter: AuditQuery): AsyncGenerator<AuditRecord> {
+    const fromDay = filter.from?.toISOString().slice(0, 10);
+    const toDay = filter.to?.toISOString().slice(0, 10);
+    let remaining = filter.limit ?? Infinity;
+
+    for (const file of files().reverse()) {
+      if (fromDay && file.day < fromDay) break;
+      if (toDay && file.day > toDay) continue;
+
+      const found: AuditRecord[] = [];
+      const lines = createInterface({ input: createReadStream(join(options.dir, file.name)), crlfDelay: Infinity });
+      for await (const line of lines) {
+        if (!line) continue;
+        let entry: AuditRecord;
+        try {
+          entry = JSON.parse(line) as AuditRecord;
+        } catch {
+          continue;
+        }
+        if (!matches(entry, filter)) continue;
+        found.push(entry);
+        if (found.length > remaining) found.shift();
+      }
+
+      for (const entry of found.reverse()) {
+        yield entry;
+        if (--remaining <= 0) return;
+      }
+    }
+  }
+
+  async function query(filter: AuditQuery): Promise<AuditRecord[]> {
+    const results: AuditRecord[] = [];
+    for await (const entry of entries(filter)) results.push(entry);
+    return results;
+  }
+
+  return { record, query, entries };
+}
+
+export type AuditLog = ReturnType<typeof createAuditLog>;
@@ -1,10 +1,100 @@
-import { Request, Response, NextFunction } from "express";
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { createHash, timingSafeEqual } from "crypto";
+import { readFileSync, existsSync } from "fs";
+import { z } from "zod";
 
-const API_KEY = process.env.API_REGISTRY_SERVICE_API_KEY;
+export const SCOPES = ["read:specs", "call:api", "admin:registry", "read:metrics"] as const;
+export type Scope = (typeof SCOPES)[number];
+
+export interface ApiKeyIdentity {
+  name: string;
+  scopes: Scope[];
+  // Service allow list (undefined = all services); deny wins over allow
+  allowServices?: string[];
+  denyServices?: string[];
+  expiresAt?: string;
+  // Environment used when a request doesn't name one, and the environments
+  // the key may use (undefined = all); see environments.ts
+  defaultEnv?: string;
+  allowEnvs?: string[];
+  // Overrides the default per-key token bucket
+  rateLimit?: { capacity?: number; refillPerSecond?: number };
+}
+
+interface StoredKey extends ApiKeyIdentity {
+  sha256: Buffer;
+}
+
+// Entries in API_KEYS_FILE. Either the raw `key` or its hex `sha256` digest.
+const keyEntrySchema = z.object({
+  name: z.string(),
+  key: z.string().optional(),
+  sha256: z.string().regex(/^[0-9a-f]{64}$/i).optional(),
+  scopes: z.array(z.enum(SCOPES)).default(["read:specs"]),
+  allowServices: z.array(z.string()).optional(),
+  denyServices: z.array(z.string()).optional(),
+  expiresAt: z.string().datetime({ offset: true }).optional(),
+  defaultEnv: z.string().optional(),
+  allowEnvs: z.array(z.string()).optional(),
+  rateLimit: z.object({
+    capacity: z.number().positive().optional(),
+    refillPerSecond: z.number().positive().optional(),
+  }).optional(),
+}).refine((entry) => entry.key || entry.sha256, "key or sha256 is required");
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+function loadKeys(): StoredKey[] {
+  const keys: StoredKey[] = [];
+
+  // Legacy single shared key: full access
+  const legacyKey = process.env.API_REGISTRY_SERVICE_API_KEY;
+  if (legacyKey) {
+    keys.push({ name: "default", scopes: [...SCOPES], sha256: sha256(legacyKey) });
+  }
+
+  const keysFile = process.env.API_KEYS_FILE || "data/api-keys.json";
+  if (existsSync(keysFile)) {
+    try {
+      const parsed = JSON.parse(readFileSync(keysFile, "utf-8")) as { keys?: unknown[] };
+      for (const raw of parsed.keys || []) {
+        const entry = keyEntrySchema.safeParse(raw);
+        if (!entry.success) {
+          console.warn(`Skipping API key entry: ${entry.error.issues[0]?.message}`);
+          continue;
+        }
+        const { key, sha256: digest, ...identity } = entry.data;
+        keys.push({ ...identity, sha256: key ? sha256(key) : Buffer.from(digest!, "hex") });
+      }
+    } catch (err) {
+      console.error(`Failed to read API keys file "${keysFile}":`, err);
+    }
+  }
+
+  return keys;
+}
+
+const KEYS = loadKeys();
+
+// No keys configured = no auth required (development mode)
+const DEVELOPMENT_IDENTITY: ApiKeyIdentity = { name: "anonymous", scopes: [...SCOPES] };
+
+function findKey(provided: string): StoredKey | undefined {
+  // Compare fixed-length digests so timing doesn't leak the key or its length;
+  // every key is checked to keep the total time independent of which matched
+  const digest = sha256(provided);
+  let match: StoredKey | undefined;
+  for (const key of KEYS) {
+    if (timingSafeEqual(digest, key.sha256) && !match) match = key;
+  }
+  return match;
+}
 
 export function requireApiKey(req: Request, res: Response, next: NextFunction) {
-  if (!API_KEY) {
-    // No API key configured = no auth required (development mode)
+  if (KEYS.length === 0) {
+    res.locals.apiKey = DEVELOPMENT_IDENTITY;
     return next();
   }
 
@@ -12,9 +102,38 @@ export function requireApiKey(req: Request, res: Response, next: NextFunction) {
     req.headers["x-api-key"] as string ||
     req.headers.authorization?.replace("Bearer ", "");
 
-  if (!provided || provided !== API_KEY) {
+  const key = provided ? findKey(provided) : undefined;
+  if (!key) {
     return res.status(401).json({ error: "Invalid or missing API key" });
   }
+  if (key.expiresAt && Date.parse(key.expiresAt) <= Date.now()) {
+    return res.status(401).json({ error: "API key expired" });
+  }
 
+  const { sha256: _digest, ...identity } = key;
+  res.locals.apiKey = identity;
   next();
 }
+
+export function getApiKey(res: Response): ApiKeyIdentity {
+  return res.locals.apiKey as ApiKeyIdentity;
+}
+
+export function hasScope(identity: ApiKeyIdentity, scope: Scope): boolean {
+  return identity.scopes.includes(scope);
+}
+
+export function canAccessService(identity: ApiKeyIdentity, service: string): boolean {
+  if (identity.denyServices?.includes(service)) return false;
+  return !identity.allowServices || identity.allowServices.includes(service);
+}
+
+// Typed loosely so it doesn't widen the route's inferred params
+export function requireScope(scope: Scope): RequestHandler<Record<string, string>> {
+  return (_req, res, next) => {
+    if (!hasScope(getApiKey(res), scope)) {
+      return res.status(403).json({ error: `API key is missing the "${scope}" scope` });
+    }
+    next();
+  };
+}
@@ -0,0 +1,242 @@
+// Spec cache shared by the REST routes and the MCP registry.
+//
+// - Fresh for `ttlMs` after a successful fetch
+// - Served stale for another `staleWhileRevalidateMs` while a background
+//   revalidation runs
+// - Revalidates with If-None-Match when the upstream sent an ETag
+// - Tries a source's locations in order (starting with the last one that
+//   worked) until one serves a usable spec
+// - Falls back to the last good spec (marked stale) when the upstream is down
+// - Notifies listeners whenever a fetch returns different spec content, when
+//   every location failed, and of each lookup and fetch (for metrics)
+
+import { createHash } from "crypto";
+import { loadSpecLocation, SpecLocationError } from "./loader.js";
+
+export interface SpecResult {
+  spec: unknown;
+  error?: string;
+  stale?: boolean;
+  fetchedAt?: string;
+  hash?: string;
+  // URL or file the spec was loaded from
+  location?: string;
+}
+
+// Where to find one service's spec; cached under `key`
+export interface SpecSource {
+  key: string;
+  // URLs or file paths, in order of preference
+  locations: string[];
+}
+
+export type SpecUpdateListener = (key: string, spec: unknown, hash: string) => void;
+export type SpecErrorListener = (key: string, error: string) => void;
+
+// For metrics: a lookup answered from the cache (fresh or stale) or sent
+// upstream, or a finished upstream fetch
+export type SpecCacheEvent =
+  | { type: "lookup"; result: "hit" | "stale" | "miss" }
+  | { type: "fetch"; durationMs: number; error?: string };
+export type SpecStatsListener = (key: string, event: SpecCacheEvent) => void;
+
+export interface SpecCacheOptions {
+  ttlMs: number;
+  staleWhileRevalidateMs: number;
+  timeoutMs: number;
+}
+
+interface CacheEntry {
+  spec: unknown;
+  hash: string;
+  location: string;
+  etag?: string;
+  fetchedAt: number;
+}
+
+export interface SpecCache {
+  get(source: SpecSource): Promise<SpecResult>;
+  refresh(source: SpecSource): Promise<SpecResult>;
+  // Last cached spec (marked stale) without touching the upstream
+  peek(key: string): SpecResult | undefined;
+  onUpdate(listener: SpecUpdateListener): () => void;
+  onError(listener: SpecErrorListener): () => void;
+  onStats(listener: SpecStatsListener): () => void;
+}
+
+// Key-order independent JSON, so reformatting a spec does not change its hash
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const keys = Object.keys(value).sort();
+    return `{${keys
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+export function hashSpec(spec: unknown): string {
+  return createHash("sha256").update(canonicalJson(spec)).digest("hex");
+}
+
+export function loadCacheOptions(): SpecCacheOptions {
+  return {
+    ttlMs: Number(process.env.SPEC_CACHE_TTL_MS) || 5 * 60_000,
+    staleWhileRevalidateMs: Number(process.env.SPEC_CACHE_STALE_MS) || 60 * 60_000,
+    timeoutMs: Number(process.env.SPEC_FETCH_TIMEOUT_MS) || 10_000,
+  };
+}
+
+export function createSpecCache(options: SpecCacheOptions): SpecCache {
+  const entries = new Map<string, CacheEntry>();
+  const inFlight = new Map<string, Promise<SpecResult>>();
+  const listeners: SpecUpdateListener[] = [];
+  const errorListeners: SpecErrorListener[] = [];
+  const statsListeners: SpecStatsListener[] = [];
+
+  function report(key: string, event: SpecCacheEvent) {
+    for (const listener of statsListeners) {
+      try {
+        listener(key, event);
+      } catch (err) {
+        console.error(`Spec stats listener failed for "${key}":`, err);
+      }
+    }
+  }
+
+  function toResult(entry: CacheEntry, extra: Partial<SpecResult> = {}): SpecResult {
+    return {
+      spec: entry.spec,
+      hash: entry.hash,
+      fetchedAt: new Date(entry.fetchedAt).toISOString(),
+      location: entry.location,
+      ...extra,
+    };
+  }
+
+  async function fetchUpstream(source: SpecSource): Promise<SpecResult> {
+    const cached = entries.get(source.key);
+    const locations = cached && source.locations.includes(cached.location)
+      ? [cached.location, ...source.locations.filter((l) => l !== cached.location)]
+      : source.locations;
+
+    const errors: string[] = [];
+    for (const location of locations) {
+      try {
+        const loaded = await loadSpecLocation(location, {
+          etag: location === cached?.location ? cached.etag : undefined,
+          timeoutMs: options.timeoutMs,
+        });
+
+        if (loaded.notModified && cached) {
+          cached.fetchedAt = Date.now();
+          return toResult(cached);
+        }
+        if (loaded.notModified) continue;
+
+        const entry: CacheEntry = {
+          spec: loaded.spec,
+          hash: hashSpec(loaded.spec),
+          location,
+          etag: loaded.etag,
+          fetchedAt: Date.now(),
+        };
+        entries.set(source.key, entry);
+        if (entry.hash !== cached?.hash) {
+          for (const listener of listeners) {
+            try {
+              listener(source.key, entry.spec, entry.hash);
+            } catch (err) {
+              console.error(`Spec update listener failed for "${source.key}":`, err);
+            }
+          }
+        }
+        return toResult(entry);
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        errors.push(locations.length > 1 ? `${location}: ${message}` : message);
+        // Network errors won't go away at the next path on the same host
+        if (!(err instanceof SpecLocationError)) break;
+      }
+    }
+
+    const error = errors.join("; ") || "No spec location configured";
+    for (const listener of errorListeners) {
+      try {
+        listener(source.key, error);
+      } catch (err) {
+        console.error(`Spec error listener failed for "${source.key}":`, err);
+      }
+    }
+    // Upstream down: serve the last good spec rather than nothing
+    if (cached) return toResult(cached, { error, stale: true });
+    return { spec: null, error };
+  }
+
+  // Collapse concurrent fetches of the same source into one upstream request
+  function revalidate(source: SpecSource): Promise<SpecResult> {
+    let pending = inFlight.get(source.key);
+    if (!pending) {
+      const started = Date.now();
+      pending = fetchUpstream(source).then((result) => {
+        report(source.key, { type: "fetch", durationMs: Date.now() - started, error: result.error });
+        return result;
+      }).finally(() => inFlight.delete(source.key));
+      inFlight.set(source.key, pending);
+    }
+    return pending;
+  }
+
+  async function get(source: SpecSource): Promise<SpecResult> {
+    const cached = entries.get(source.key);
+    const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+    if (cached && age < options.ttlMs) {
+      report(source.key, { type: "lookup", result: "hit" });
+      return toResult(cached);
+    }
+
+    if (cached && age < options.ttlMs + options.staleWhileRevalidateMs) {
+      report(source.key, { type: "lookup", result: "stale" });
+      void revalidate(source);
+      return toResult(cached, { stale: true });
+    }
+
+    report(source.key, { type: "lookup", result: "miss" });
+    return revalidate(source);
+  }
+
+  function peek(key: string): SpecResult | undefined {
+    const cached = entries.get(key);
+    return cached ? toResult(cached, { stale: true }) : undefined;
+  }
+
+  // Returns a function that removes the listener again
+  function onUpdate(listener: SpecUpdateListener): () => void {
+    listeners.push(listener);
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index !== -1) listeners.splice(index, 1);
+    };
+  }
+
+  // Called whenever every location of a source failed; returns an unsubscribe function
+  function onError(listener: SpecErrorListener): () => void {
+    errorListeners.push(listener);
+    return () => {
+      const index = errorListeners.indexOf(listener);
+      if (index !== -1) errorListeners.splice(index, 1);
+    };
+  }
+
+  // Returns a function that removes the listener again
+  function onStats(listener: SpecStatsListener): () => void {
+    statsListeners.push(listener);
+    return () => {
+      const index = statsListeners.indexOf(listener);
+      if (index !== -1) statsListeners.splice(index, 1);
+    };
+  }
+
+  return { get, refresh: revalidate, peek, onUpdate, onError, onStats };
+}
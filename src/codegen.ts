@@ -0,0 +1,371 @@
+import { SpecResult } from "./cache.js";
+import { listOperations, OpenApiSpec, ParameterObject, resolveRef, SchemaObject, successResponse } from "./openapi.js";
+import { ServiceEntry } from "./services.js";
+
+// Self-contained TypeScript clients generated from cached specs
+// (GET /clients/:service.ts and the all-services bundle GET /clients.ts).
+// Output depends only on the spec and the service's base URL, so it is
+// cached per spec hash.
+
+const SCHEMA_PREFIX = "#/components/schemas/";
+
+// Declared by the shared runtime or used by generated code; schemas with
+// these names get a suffix
+const RESERVED_NAMES = [
+  "ClientOptions", "ApiError", "RequestParams", "Client", "DEFAULT_BASE_URL",
+  "Array", "Blob", "BodyInit", "Promise", "Record",
+];
+
+const RUNTIME = `export interface ClientOptions {
+  /** Defaults to the base URL registered for the service */
+  baseUrl?: string;
+  /** Auth header sent with every request, e.g. { name: "Authorization", value: "Bearer ..." } */
+  auth?: { name: string; value: string | (() => string | Promise<string>) };
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly body: unknown;
+
+  constructor(status: number, body: unknown, message: string) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+interface RequestParams {
+  path?: Record<string, unknown>;
+  query?: Record<string, unknown>;
+  headers?: Record<string, unknown>;
+  body?: unknown;
+}
+
+async function send(
+  baseUrl: string,
+  options: ClientOptions,
+  method: string,
+  path: string,
+  params: RequestParams = {},
+  json = true
+): Promise<unknown> {
+  const target = path.replace(/\\{([^}]+)\\}/g, (_, name: string) => encodeURIComponent(String(params.path?.[name])));
+  const url = new URL(baseUrl.replace(/\\/+$/, "") + target);
+  for (const [name, value] of Object.entries(params.query ?? {})) {
+    if (value === undefined || value === null) continue;
+    for (const item of Array.isArray(value) ? value : [value]) url.searchParams.append(name, String(item));
+  }
+
+  const headers: Record<string, string> = { Accept: "application/json", ...options.headers };
+  for (const [name, value] of Object.entries(params.headers ?? {})) {
+    if (value !== undefined && value !== null) headers[name] = String(value);
+  }
+  if (options.auth) {
+    const { name, value } = options.auth;
+    headers[name] = typeof value === "function" ? await value() : value;
+  }
+
+  let body: BodyInit | undefined;
+  if (params.body !== undefined) {
+    if (json) headers["Content-Type"] = "application/json";
+    body = json ? JSON.stringify(params.body) : (params.body as BodyInit);
+  }
+
+  const response = await (options.fetch ?? fetch)(url, { method, headers, body });
+  const text = await response.text();
+  let data: unknown = text || undefined;
+  if (text && /json/i.test(response.headers.get("content-type") ?? "")) {
+    try {
+      data = JSON.parse(text);
+    } catch {
+      // Keep the raw text
+    }
+  }
+  if (!response.ok) {
+    throw new ApiError(response.status, data, \`\${method} \${path} failed with HTTP \${response.status}\`);
+  }
+  return data;
+}`;
+
+function pascalCase(value: string): string {
+  const words = value
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+  const name = words.map((w) => w[0].toUpperCase() + w.slice(1)).join("");
+  return /^[0-9]/.test(name) ? `_${name}` : name || "Unnamed";
+}
+
+function camelCase(value: string): string {
+  const name = pascalCase(value);
+  return name[0].toLowerCase() + name.slice(1);
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function docComment(lines: Array<string | undefined>, indent: string): string[] {
+  const text = lines.filter(Boolean).join("\n").replace(/\*\//g, "*\\/").trim();
+  if (!text) return [];
+  const body = text.split("\n");
+  if (body.length === 1) return [`${indent}/** ${body[0]} */`];
+  return [`${indent}/**`, ...body.map((line) => `${indent} * ${line}`.trimEnd()), `${indent} */`];
+}
+
+// Unique identifiers, handed out in spec order so output is stable
+function createNamer(taken: string[]) {
+  const used = new Set(taken);
+  return (base: string) => {
+    let name = base;
+    for (let i = 2; used.has(name); i++) name = `${base}${i}`;
+    used.add(name);
+    return name;
+  };
+}
+
+function isJsonMediaType(type: string): boolean {
+  return /json/i.test(type);
+}
+
+// One service's declarations (schema types, params types, createClient)
+function generateService(service: ServiceEntry, spec: OpenApiSpec): string {
+  const uniqueName = createNamer(RESERVED_NAMES);
+  const schemas = (spec.components?.schemas || {}) as Record<string, SchemaObject>;
+  const typeNames = new Map(Object.keys(schemas).map((name) => [name, uniqueName(pascalCase(name))]));
+
+  function tsType(schemaOrRef: SchemaObject | undefined, indent: string, seen: Set<string> = new Set()): string {
+    if (!schemaOrRef) return "unknown";
+    const ref = schemaOrRef.$ref;
+    if (ref?.startsWith(SCHEMA_PREFIX)) {
+      return typeNames.get(ref.slice(SCHEMA_PREFIX.length).replace(/~1/g, "/").replace(/~0/g, "~")) ?? "unknown";
+    }
+    if (ref) {
+      // Other local refs are inlined; unresolvable or cyclic ones stay open
+      const target = resolveRef(spec, schemaOrRef);
+      if (seen.has(ref) || target.$ref === ref) return "unknown";
+      return tsType(target, indent, new Set(seen).add(ref));
+    }
+
+    const schema = schemaOrRef;
+    let rendered: string;
+    if (schema.enum) {
+      rendered = schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+    } else if (schema.allOf) {
+      rendered = schema.allOf.map((s) => tsType(s, indent, seen)).join(" & ");
+    } else if (schema.anyOf || schema.oneOf) {
+      rendered = (schema.anyOf || schema.oneOf)!.map((s) => tsType(s, indent, seen)).join(" | ");
+    } else if (Array.isArray(schema.type)) {
+      rendered = schema.type.map((type) => tsType({ ...schema, type, nullable: false }, indent, seen)).join(" | ");
+    } else if (schema.type === "array" || schema.items) {
+      const item = tsType(schema.items, indent, seen);
+      rendered = /^[\w.]+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+    } else if (schema.type === "object" || schema.properties || schema.additionalProperties) {
+      rendered = objectType(schema, indent, seen);
+    } else if (schema.type === "integer" || schema.type === "number") {
+      rendered = "number";
+    } else if (schema.type === "string") {
+      rendered = schema.format === "binary" ? "Blob" : "string";
+    } else if (schema.type === "boolean" || schema.type === "null") {
+      rendered = schema.type;
+    } else {
+      rendered = "unknown";
+    }
+    return schema.nullable ? `${rendered} | null` : rendered;
+  }
+
+  function objectMembers(schema: SchemaObject, indent: string, seen: Set<string>): string[] {
+    const required = new Set(schema.required || []);
+    const members = Object.entries(schema.properties || {}).flatMap(([name, child]) => [
+      ...docComment([child.description], indent),
+      `${indent}${propertyKey(name)}${required.has(name) ? "" : "?"}: ${tsType(child, indent, seen)};`,
+    ]);
+    if (schema.additionalProperties) members.push(`${indent}[key: string]: unknown;`);
+    return members;
+  }
+
+  function objectType(schema: SchemaObject, indent: string, seen: Set<string>): string {
+    const { additionalProperties } = schema;
+    if (!schema.properties && additionalProperties && typeof additionalProperties === "object") {
+      return `Record<string, ${tsType(additionalProperties, indent, seen)}>`;
+    }
+    if (!schema.properties && !additionalProperties) return "Record<string, unknown>";
+    const members = objectMembers(schema, `${indent}  `, seen);
+    return members.length > 0 ? `{\n${members.join("\n")}\n${indent}}` : "Record<string, unknown>";
+  }
+
+  const lines: string[] = [`export const DEFAULT_BASE_URL = ${JSON.stringify(service.baseUrl)};`];
+
+  for (const [name, schemaOrRef] of Object.entries(schemas)) {
+    const schema = resolveRef(spec, schemaOrRef);
+    lines.push("", ...docComment([schema.description], ""));
+    const plainObject = schema.properties && !schema.allOf && !schema.anyOf && !schema.oneOf &&
+      !schema.enum && !schema.nullable;
+    if (plainObject) {
+      lines.push(`export interface ${typeNames.get(name)} {`, ...objectMembers(schema, "  ", new Set()), "}");
+    } else {
+      lines.push(`export type ${typeNames.get(name)} = ${tsType(schema, "", new Set())};`);
+    }
+  }
+
+  const uniqueMethod = createNamer([]);
+  const methods: string[] = [];
+
+  for (const { method, path, details } of listOperations(spec)) {
+    const methodName = uniqueMethod(camelCase(details.operationId || `${method} ${path}`));
+    const paramsName = uniqueName(`${pascalCase(methodName)}Params`);
+    const groups: string[] = [];
+    let anyRequired = false;
+
+    const parameters = (details.parameters || []).map((p) => resolveRef<ParameterObject>(spec, p));
+    for (const location of ["path", "query", "header"]) {
+      const inGroup = parameters.filter((p) => p.in === location);
+      if (inGroup.length === 0) continue;
+      const groupRequired = inGroup.some((p) => p.required || p.in === "path");
+      anyRequired ||= groupRequired;
+      const members = inGroup.flatMap((p) => [
+        ...docComment([p.description], "    "),
+        `    ${propertyKey(p.name)}${p.required || p.in === "path" ? "" : "?"}: ${tsType(p.schema, "    ")};`,
+      ]);
+      const group = location === "header" ? "headers" : location;
+      groups.push(`  ${group}${groupRequired ? "" : "?"}: {\n${members.join("\n")}\n  };`);
+    }
+
+    const requestBody = resolveRef(spec, details.requestBody);
+    const content = requestBody?.content || {};
+    const jsonType = Object.keys(content).find(isJsonMediaType);
+    const isJsonBody = !requestBody || !!jsonType || Object.keys(content).length === 0;
+    if (requestBody) {
+      anyRequired ||= !!requestBody.required;
+      const bodyType = jsonType ? tsType(content[jsonType].schema, "  ") : isJsonBody ? "unknown" : "BodyInit";
+      groups.push(`  body${requestBody.required ? "" : "?"}: ${bodyType};`);
+    }
+
+    const success = successResponse(spec, details);
+    const responseType = !success ? "unknown" : success.status === "204" ? "void" : tsType(success.schema, "  ");
+
+    if (groups.length > 0) lines.push("", `export interface ${paramsName} {`, ...groups, "}");
+
+    const signature = groups.length === 0 ? "" : `params${anyRequired ? "" : "?"}: ${paramsName}`;
+    const args = [
+      "baseUrl", "options", JSON.stringify(method.toUpperCase()), JSON.stringify(path),
+      ...(groups.length > 0 ? ["params"] : isJsonBody ? [] : ["undefined"]),
+      ...(isJsonBody ? [] : ["false"]),
+    ];
+    methods.push(
+      ...docComment([details.summary, details.description, `\`${method.toUpperCase()} ${path}\``], "    "),
+      `    ${methodName}: (${signature}) =>`,
+      `      send(${args.join(", ")}) as Promise<${responseType}>,`,
+    );
+  }
+
+  lines.push(
+    "",
+    "export function createClient(options: ClientOptions = {}) {",
+    "  const baseUrl = options.baseUrl ?? DEFAULT_BASE_URL;",
+    "  return {",
+    ...methods,
+    "  };",
+    "}",
+    "",
+    "export type Client = ReturnType<typeof createClient>;",
+  );
+  return lines.join("\n");
+}
+
+function header(description: string, specs: Array<{ service: string; hash: string }>): string {
+  return [
+    `// ${description}`,
+    ...specs.map(({ service, hash }) => `// ${service}: spec ${hash.slice(0, 12)}`),
+    "// Generated by the API registry. Do not edit.",
+  ].join("\n");
+}
+
+export interface ClientSource {
+  service: ServiceEntry;
+  result: SpecResult;
+}
+
+export function createClientGenerator() {
+  // Latest output per service and for the bundle, keyed by spec hash + base URL
+  const cache = new Map<string, { key: string; code: string }>();
+
+  function cached(slot: string, key: string, generate: () => string): string {
+    const entry = cache.get(slot);
+    if (entry?.key === key) return entry.code;
+    const code = generate();
+    cache.set(slot, { key, code });
+    return code;
+  }
+
+  function serviceKey({ service, result }: ClientSource): string {
+    return `${result.hash}:${service.baseUrl}`;
+  }
+
+  // `result` must hold a spec
+  function forService(source: ClientSource): string {
+    const { service, result } = source;
+    return cached(`service:${service.name}`, serviceKey(source), () => [
+      header(`TypeScript client for "${service.name}"`, [{ service: service.name, hash: result.hash! }]),
+      "",
+      RUNTIME,
+      "",
+      generateService(service, result.spec as OpenApiSpec),
+      "",
+    ].join("\n"));
+  }
+
+  // One module for many services: each gets a namespace (e.g. `CampaignService`)
+  // and createRegistryClient builds them all
+  function bundle(sources: ClientSource[]): string {
+    const sorted = [...sources].sort((a, b) => a.service.name.localeCompare(b.service.name));
+    const key = sorted.map((s) => `${s.service.name}=${serviceKey(s)}`).join(",");
+
+    return cached("bundle", key, () => {
+      const uniqueNamespace = createNamer(["ClientOptions", "ApiError", "RequestParams", "RegistryClientOptions"]);
+      const namespaces = sorted.map((source) => ({ source, namespace: uniqueNamespace(pascalCase(source.service.name)) }));
+      const lines = [
+        header("TypeScript clients for every registered service", sorted.map((s) => ({
+          service: s.service.name,
+          hash: s.result.hash!,
+        }))),
+        "",
+        RUNTIME,
+      ];
+
+      for (const { source, namespace } of namespaces) {
+        const body = generateService(source.service, source.result.spec as OpenApiSpec)
+          .split("\n")
+          .map((line) => (line ? `  ${line}` : line));
+        lines.push("", ...docComment([source.service.description], ""), `export namespace ${namespace} {`, ...body, "}");
+      }
+
+      lines.push(
+        "",
+        "/** Options per service, keyed by service name */",
+        "export type RegistryClientOptions = {",
+        ...namespaces.map(({ source }) => `  ${propertyKey(source.service.name)}?: ClientOptions;`),
+        "};",
+        "",
+        "export function createRegistryClient(options: RegistryClientOptions = {}) {",
+        "  return {",
+        ...namespaces.map(({ source, namespace }) => {
+          const name = propertyKey(source.service.name);
+          return `    ${name}: ${namespace}.createClient(options${name.startsWith('"') ? `[${name}]` : `.${name}`}),`;
+        }),
+        "  };",
+        "}",
+        "",
+      );
+      return lines.join("\n");
+    });
+  }
+
+  return { forService, bundle };
+}
+
+export type ClientGenerator = ReturnType<typeof createClientGenerator>;
@@ -0,0 +1,161 @@
+import { readFileSync, existsSync } from "fs";
+import { z } from "zod";
+
+// Per-service upstream credentials, injected server-side into proxied calls.
+//
+// SERVICE_AUTH_FILE maps service name ("name@env" for a named environment)
+// → auth config. Config only holds references; the values come from env vars
+// ({ "env": "VAR" }) or from the SERVICE_SECRETS_FILE JSON object
+// ({ "secret": "key" }). Credentials are
+// deliberately not settable through the registration API, which would let
+// any caller point an env var at a URL of their choosing. For the same
+// reason each entry names the origins it may be sent to: a registered or
+// discovered base URL elsewhere (e.g. changed through PUT /services/:name)
+// gets no credentials.
+
+const secretRefSchema = z.union([
+  z.object({ env: z.string() }),
+  z.object({ secret: z.string() }),
+]);
+
+// Where and how an entry may be used, on every auth type
+const bindingShape = {
+  origins: z.array(z.url()).min(1),
+  allowOverride: z.boolean().optional(),
+};
+
+const authConfigSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("header"), name: z.string(), value: secretRefSchema, ...bindingShape }),
+  z.object({ type: z.literal("bearer"), token: secretRefSchema, ...bindingShape }),
+  z.object({
+    type: z.literal("basic"),
+    username: z.union([z.string(), secretRefSchema]),
+    password: secretRefSchema,
+    ...bindingShape,
+  }),
+  z.object({ type: z.literal("query"), name: z.string(), value: secretRefSchema, ...bindingShape }),
+]);
+
+export type SecretRef = z.infer<typeof secretRefSchema>;
+export type ServiceAuthConfig = z.infer<typeof authConfigSchema>;
+
+function readJsonFile(path: string, label: string): unknown {
+  if (!existsSync(path)) return {};
+  try {
+    return JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err) {
+    console.error(`Failed to read ${label} "${path}":`, err);
+    return {};
+  }
+}
+
+export function createCredentialStore(
+  authFile = process.env.SERVICE_AUTH_FILE || "data/service-auth.json",
+  secretsFile = process.env.SERVICE_SECRETS_FILE || "data/secrets.json"
+) {
+  const configs = new Map<string, ServiceAuthConfig>();
+  const secrets = readJsonFile(secretsFile, "secrets file") as Record<string, string>;
+
+  const raw = readJsonFile(authFile, "service auth file") as Record<string, unknown>;
+  for (const [service, config] of Object.entries(raw)) {
+    const parsed = authConfigSchema.safeParse(config);
+    if (!parsed.success) {
+      console.warn(`Skipping auth config for "${service}": ${parsed.error.issues[0]?.message}`);
+      continue;
+    }
+    configs.set(service, parsed.data);
+  }
+
+  function resolve(ref: SecretRef | string): string | undefined {
+    if (typeof ref === "string") return ref;
+    return "env" in ref ? process.env[ref.env] : secrets[ref.secret];
+  }
+
+  // Every resolved secret value, for scrubbing tool output
+  function secretValues(): string[] {
+    const values: string[] = [];
+    for (const config of configs.values()) {
+      const refs = config.type === "bearer" ? [config.token]
+        : config.type === "basic" ? [config.password]
+        : [config.value];
+      for (const ref of refs) {
+        const value = resolve(ref);
+        if (value) values.push(value);
+      }
+      if (config.type === "basic") {
+        const basic = basicToken(config);
+        if (basic) values.push(basic);
+      }
+    }
+    return values;
+  }
+
+  function basicToken(config: Extract<ServiceAuthConfig, { type: "basic" }>): string | undefined {
+    const username = resolve(config.username);
+    const password = resolve(config.password);
+    if (username === undefined || password === undefined) return undefined;
+    return Buffer.from(`${username}:${password}`).toString("base64");
+  }
+
+  function allowsOrigin(config: ServiceAuthConfig, url: URL): boolean {
+    return config.origins.some((origin) => new URL(origin).origin === url.origin);
+  }
+
+  // Whether calls to the base URL get the service's credentials
+  function has(service: string, baseUrl: string): boolean {
+    const config = configs.get(service);
+    return config !== undefined && URL.canParse(baseUrl) && allowsOrigin(config, new URL(baseUrl));
+  }
+
+  // Injects the service's credentials into the outgoing URL and headers.
+  // Caller-supplied values for the injected header/param are dropped unless
+  // the service config sets allowOverride, in which case the caller's wins.
+  // Nothing is injected for a URL outside the entry's origins.
+  function apply(service: string, url: URL, headers: Record<string, string>) {
+    const config = configs.get(service);
+    if (!config) return;
+    if (!allowsOrigin(config, url)) {
+      console.warn(`Not sending credentials for "${service}" to ${url.origin}: not one of its configured origins`);
+      return;
+    }
+
+    if (config.type === "query") {
+      if (config.allowOverride && url.searchParams.has(config.name)) return;
+      const value = resolve(config.value);
+      if (value === undefined) throw new Error(`Credentials for "${service}" are not configured`);
+      url.searchParams.set(config.name, value);
+      return;
+    }
+
+    const headerName = config.type === "header" ? config.name : "Authorization";
+    const existing = Object.keys(headers).filter((h) => h.toLowerCase() === headerName.toLowerCase());
+    if (config.allowOverride && existing.length > 0) return;
+    for (const key of existing) delete headers[key];
+
+    let value: string | undefined;
+    if (config.type === "header") {
+      value = resolve(config.value);
+    } else if (config.type === "bearer") {
+      const token = resolve(config.token);
+      value = token === undefined ? undefined : `Bearer ${token}`;
+    } else {
+      const token = basicToken(config);
+      value = token === undefined ? undefined : `Basic ${token}`;
+    }
+
+    if (value === undefined) throw new Error(`Credentials for "${service}" are not configured`);
+    headers[headerName] = value;
+  }
+
+  function redact(text: string): string {
+    let result = text;
+    for (const value of secretValues()) {
+      if (value.length >= 4) result = result.split(value).join("[REDACTED]");
+    }
+    return result;
+  }
+
+  return { has, apply, redact };
+}
+
+export type CredentialStore = ReturnType<typeof createCredentialStore>;
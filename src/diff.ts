@@ -0,0 +1,190 @@
+import {
+  listOperations,
+  OpenApiSpec,
+  OperationObject,
+  ParameterObject,
+  resolveRef,
+  SchemaObject,
+} from "./openapi.js";
+
+// Contract diff between two versions of a service's spec.
+// Request-side changes break callers when they demand more (new required
+// params/fields, narrower enums); response-side changes break callers when
+// they return less (removed fields).
+
+export interface SpecChange {
+  kind: string;
+  method?: string;
+  path?: string;
+  location?: string;
+  detail: string;
+}
+
+export interface SpecDiff {
+  breaking: SpecChange[];
+  nonBreaking: SpecChange[];
+}
+
+// Nesting depth explored inside request/response schemas
+const MAX_SCHEMA_DEPTH = 6;
+
+type Direction = "request" | "response";
+
+function typeOf(schema: SchemaObject | undefined): string | undefined {
+  if (!schema?.type) return undefined;
+  return Array.isArray(schema.type) ? [...schema.type].sort().join("|") : schema.type;
+}
+
+function successResponseSchema(spec: OpenApiSpec, operation: OperationObject): SchemaObject | undefined {
+  const status = Object.keys(operation.responses || {}).sort().find((code) => /^2\d\d$/.test(code));
+  if (!status) return undefined;
+  const response = resolveRef(spec, operation.responses![status]);
+  return response?.content?.["application/json"]?.schema;
+}
+
+export function diffSpecs(fromSpec: OpenApiSpec, toSpec: OpenApiSpec): SpecDiff {
+  const diff: SpecDiff = { breaking: [], nonBreaking: [] };
+
+  function add(breaking: boolean, change: SpecChange) {
+    (breaking ? diff.breaking : diff.nonBreaking).push(change);
+  }
+
+  function compareSchemas(
+    from: SchemaObject | undefined,
+    to: SchemaObject | undefined,
+    direction: Direction,
+    context: Omit<SpecChange, "kind" | "detail" | "location">,
+    location: string,
+    depth: number
+  ) {
+    const a = resolveRef(fromSpec, from);
+    const b = resolveRef(toSpec, to);
+    if (!a || !b || depth > MAX_SCHEMA_DEPTH) return;
+
+    const typeA = typeOf(a);
+    const typeB = typeOf(b);
+    if (typeA && typeB && typeA !== typeB) {
+      add(true, { kind: "type-changed", ...context, location, detail: `Type changed from ${typeA} to ${typeB}` });
+      return;
+    }
+
+    if (a.enum && b.enum) {
+      const removed = a.enum.filter((v) => !b.enum!.some((w) => JSON.stringify(w) === JSON.stringify(v)));
+      const added = b.enum.filter((v) => !a.enum!.some((w) => JSON.stringify(w) === JSON.stringify(v)));
+      if (removed.length > 0) {
+        add(direction === "request", {
+          kind: "enum-value-removed", ...context, location,
+          detail: `Enum value(s) removed: ${removed.map((v) => JSON.stringify(v)).join(", ")}`,
+        });
+      }
+      if (added.length > 0) {
+        add(direction === "response", {
+          kind: "enum-value-added", ...context, location,
+          detail: `Enum value(s) added: ${added.map((v) => JSON.stringify(v)).join(", ")}`,
+        });
+      }
+    }
+
+    const propsA = a.properties || {};
+    const propsB = b.properties || {};
+    const requiredA = new Set(a.required || []);
+    const requiredB = new Set(b.required || []);
+
+    for (const name of Object.keys(propsB)) {
+      const field = location ? `${location}.${name}` : name;
+      if (!(name in propsA)) {
+        const breaking = direction === "request" && requiredB.has(name);
+        add(breaking, {
+          kind: breaking ? "required-field-added" : "field-added", ...context, location: field,
+          detail: `${breaking ? "Required field" : "Field"} "${field}" added`,
+        });
+      } else if (direction === "request" && requiredB.has(name) && !requiredA.has(name)) {
+        add(true, { kind: "field-became-required", ...context, location: field, detail: `Field "${field}" is now required` });
+      }
+    }
+
+    for (const name of Object.keys(propsA)) {
+      const field = location ? `${location}.${name}` : name;
+      if (!(name in propsB)) {
+        add(direction === "response", { kind: "field-removed", ...context, location: field, detail: `Field "${field}" removed` });
+      } else {
+        compareSchemas(propsA[name], propsB[name], direction, context, field, depth + 1);
+      }
+    }
+
+    if (a.items && b.items) {
+      compareSchemas(a.items, b.items, direction, context, `${location}[]`, depth + 1);
+    }
+  }
+
+  function paramKey(p: ParameterObject) {
+    return `${p.in}:${p.name}`;
+  }
+
+  function compareOperations(method: string, path: string, a: OperationObject, b: OperationObject) {
+    const context = { method: method.toUpperCase(), path };
+
+    const paramsA = new Map((a.parameters || []).map((p) => resolveRef(fromSpec, p)).map((p) => [paramKey(p), p]));
+    const paramsB = new Map((b.parameters || []).map((p) => resolveRef(toSpec, p)).map((p) => [paramKey(p), p]));
+
+    for (const [key, param] of paramsB) {
+      const location = `${param.in} parameter "${param.name}"`;
+      const previous = paramsA.get(key);
+      if (!previous) {
+        add(!!param.required, {
+          kind: param.required ? "required-param-added" : "param-added", ...context, location,
+          detail: `${param.required ? "Required" : "Optional"} ${location} added`,
+        });
+      } else {
+        if (param.required && !previous.required) {
+          add(true, { kind: "param-became-required", ...context, location, detail: `${location} is now required` });
+        }
+        compareSchemas(previous.schema, param.schema, "request", context, location, 0);
+      }
+    }
+    for (const [key, param] of paramsA) {
+      if (!paramsB.has(key)) {
+        const location = `${param.in} parameter "${param.name}"`;
+        add(false, { kind: "param-removed", ...context, location, detail: `${location} removed` });
+      }
+    }
+
+    const bodyA = resolveRef(fromSpec, a.requestBody);
+    const bodyB = resolveRef(toSpec, b.requestBody);
+    if (bodyB?.required && !bodyA?.required) {
+      add(true, { kind: "body-became-required", ...context, location: "body", detail: "Request body is now required" });
+    }
+    if (bodyA && bodyB) {
+      const schemaA = bodyA.content?.["application/json"]?.schema;
+      const schemaB = bodyB.content?.["application/json"]?.schema;
+      compareSchemas(schemaA, schemaB, "request", context, "body", 0);
+    }
+
+    compareSchemas(successResponseSchema(fromSpec, a), successResponseSchema(toSpec, b), "response", context, "response", 0);
+  }
+
+  const operationsA = new Map(listOperations(fromSpec).map((op) => [`${op.method} ${op.path}`, op]));
+  const operationsB = new Map(listOperations(toSpec).map((op) => [`${op.method} ${op.path}`, op]));
+
+  for (const [key, op] of operationsA) {
+    const next = operationsB.get(key);
+    if (!next) {
+      add(true, {
+        kind: "operation-removed", method: op.method.toUpperCase(), path: op.path,
+        detail: `${op.method.toUpperCase()} ${op.path} removed`,
+      });
+    } else {
+      compareOperations(op.method, op.path, op.details, next.details);
+    }
+  }
+  for (const [key, op] of operationsB) {
+    if (!operationsA.has(key)) {
+      add(false, {
+        kind: "operation-added", method: op.method.toUpperCase(), path: op.path,
+        detail: `${op.method.toUpperCase()} ${op.path} added`,
+      });
+    }
+  }
+
+  return diff;
+}
@@ -0,0 +1,416 @@
+import { existsSync, readFileSync, unwatchFile, watchFile } from "fs";
+import { parse as parseYaml } from "yaml";
+import {
+  DiscoveredService,
+  discoveredServiceSchema,
+  isValidServiceUrl,
+  TRUSTED_SPEC_FILE_SOURCES,
+} from "./services.js";
+
+// Service discovery: each provider returns its current list of services, and
+// the registry merges them in precedence order (first listed wins by default).
+// Providers are re-polled every DISCOVERY_POLL_MS; the file provider also
+// watches its file. Changes are swapped into the registry without a restart.
+//
+// DISCOVERY_PROVIDERS="env,file,http" (default: env, plus file/http when
+// DISCOVERY_FILE / DISCOVERY_URL is set) sets which providers run and their order.
+
+export interface DiscoveryProvider {
+  // Recorded as each service's `source`
+  name: string;
+  // Where the provider reads from, for GET /admin/discovery
+  location?: string;
+  // The provider's full current list. Throwing keeps its last good list.
+  load(): Promise<DiscoveredService[]>;
+  // Calls `changed` when the provider knows its list changed; returns a stop function
+  watch?(changed: () => void): () => void;
+}
+
+// What happens when several providers supply the same service name:
+// - precedence: the first provider's entry is used as is
+// - merge: fields missing from the first provider's entry are filled in from later ones
+// - exclude: the service is left out until the conflict is resolved
+export const CONFLICT_RULES = ["precedence", "merge", "exclude"] as const;
+export type ConflictRule = (typeof CONFLICT_RULES)[number];
+
+export interface DiscoveryOptions {
+  providers: DiscoveryProvider[];
+  conflicts: ConflictRule;
+  pollIntervalMs: number;
+}
+
+export interface ProviderStatus {
+  name: string;
+  location?: string;
+  services: number;
+  lastLoadedAt?: string;
+  lastError?: string;
+}
+
+const HTTP_TIMEOUT_MS = 10_000;
+
+// A remote catalog must not make the registry read local files
+function withoutUntrustedSpecFiles<T extends Omit<DiscoveredService, "source">>(
+  provider: string,
+  service: T,
+  reported: Set<string>
+): T {
+  const hasSpecFile = service.specFile || Object.values(service.environments || {}).some((env) => env.specFile);
+  if (!hasSpecFile || TRUSTED_SPEC_FILE_SOURCES.includes(provider)) return service;
+
+  const message = `Ignoring specFile of service "${service.name}" from the "${provider}" provider`;
+  if (!reported.has(message)) console.warn(message);
+  reported.add(message);
+  const environments = service.environments && Object.fromEntries(
+    Object.entries(service.environments).map(([env, { specFile: _file, ...environment }]) => [env, environment])
+  );
+  return { ...service, specFile: undefined, environments };
+}
+
+// Drops entries that fail validation, warning once per entry and provider
+function validEntries(provider: string, raw: unknown[], reported: Set<string>): DiscoveredService[] {
+  const services: DiscoveredService[] = [];
+  const seen = new Set<string>();
+  for (const [i, entry] of raw.entries()) {
+    const parsed = discoveredServiceSchema.safeParse(entry);
+    if (!parsed.success) {
+      const label = (entry as { name?: unknown })?.name ?? `#${i + 1}`;
+      const message = `Skipping service ${label} from the "${provider}" provider: ${parsed.error.issues[0]?.message}`;
+      if (!reported.has(message)) console.warn(message);
+      reported.add(message);
+      continue;
+    }
+    // Several instances of one service (e.g. from a catalog): the first one is used
+    if (seen.has(parsed.data.name)) continue;
+    seen.add(parsed.data.name);
+    services.push({ ...withoutUntrustedSpecFiles(provider, parsed.data, reported), source: provider });
+  }
+  return services;
+}
+
+// A list of services, or { services: [...] }, or { services: { name: {...} } }; empty is no services
+function serviceList(document: unknown): unknown[] {
+  const services = document && typeof document === "object" && !Array.isArray(document)
+    ? (document as { services?: unknown }).services
+    : document;
+  if (services === null || services === undefined) return [];
+  if (Array.isArray(services)) return services;
+  if (services && typeof services === "object") {
+    return Object.entries(services).map(([name, entry]) => ({ name, ...(entry as object) }));
+  }
+  throw new Error("Expected a list of services or an object with a `services` field");
+}
+
+// Registry: name → base URL
+// Configure via SERVICES env var: "service1=https://url1,service2=https://url2"
+// ("service1@staging=https://url" adds a staging environment to service1)
+// Or via individual env vars: <NAME>_SERVICE_URL=https://url or <NAME>_WORKER_URL=https://url
+// Spec locations: SPEC_LOCATIONS="legacy=/swagger.json,billing=file:specs/billing.yaml"
+export function createEnvProvider(): DiscoveryProvider {
+  // Skip RAILWAY_* vars by default to avoid picking up Railway internal env vars
+  const ignoredPrefixes = (process.env.DISCOVERY_ENV_IGNORE_PREFIXES ?? "RAILWAY_")
+    .split(",")
+    .map((prefix) => prefix.trim())
+    .filter(Boolean);
+  // Name of the environment the plain "name=url" entries describe
+  const defaultEnv = process.env.DEFAULT_ENVIRONMENT?.trim() || undefined;
+  const reported = new Set<string>();
+
+  function warnOnce(message: string) {
+    if (!reported.has(message)) console.warn(message);
+    reported.add(message);
+  }
+
+  // name → environment ("" for the plain entry) → URL
+  function loadUrls(): Record<string, Record<string, string>> {
+    const services: Record<string, Record<string, string>> = {};
+    const add = (name: string, env: string, url: string) => {
+      // Validate URLs: must have a protocol, skip invalid entries
+      if (!isValidServiceUrl(url)) {
+        return warnOnce(`Skipping service "${name}${env ? `@${env}` : ""}": invalid URL "${url}" (missing https:// prefix)`);
+      }
+      (services[name] ??= {})[env] = url;
+    };
+
+    // Method 1: SERVICES env var (comma-separated)
+    for (const entry of (process.env.SERVICES || "").split(",")) {
+      const [key, url] = entry.trim().split("=");
+      if (!key || !url) continue;
+      const [name, env = ""] = key.trim().split("@");
+      add(name, env, url.trim());
+    }
+
+    // Method 2: Individual env vars: <NAME>_SERVICE_URL or <NAME>_WORKER_URL
+    for (const [key, value] of Object.entries(process.env)) {
+      if (ignoredPrefixes.some((prefix) => key.startsWith(prefix))) continue;
+      const match = key.match(/^(.+)_SERVICE_URL$/) || key.match(/^(.+)_WORKER_URL$/);
+      if (match && value) add(match[1].toLowerCase().replace(/_/g, "-"), "", value);
+    }
+    return services;
+  }
+
+  function loadSpecLocations(): Record<string, { specPath?: string; specFile?: string }> {
+    const locations: Record<string, { specPath?: string; specFile?: string }> = {};
+    for (const entry of (process.env.SPEC_LOCATIONS || "").split(",")) {
+      const [name, location] = entry.trim().split("=");
+      if (!name || !location) continue;
+      if (location.startsWith("file:")) {
+        locations[name.trim()] = { specFile: location.slice("file:".length).trim() };
+      } else if (location.startsWith("/")) {
+        locations[name.trim()] = { specPath: location.trim() };
+      } else {
+        warnOnce(`Skipping spec location for "${name}": expected "/path" or "file:path", got "${location}"`);
+      }
+    }
+    return locations;
+  }
+
+  return {
+    name: "env",
+    async load() {
+      const locations = loadSpecLocations();
+      const entries = Object.entries(loadUrls()).flatMap(([name, urls]) => {
+        const { "": plainUrl, ...others } = urls;
+        const defaultName = defaultEnv || "default";
+        const baseUrl = plainUrl ?? others[defaultName];
+        if (!baseUrl) {
+          warnOnce(`Skipping service "${name}": no URL for its default environment "${defaultName}"`);
+          return [];
+        }
+        delete others[defaultName];
+        const environments = Object.keys(others).length > 0
+          ? Object.fromEntries(Object.entries(others).map(([env, url]) => [env, { baseUrl: url }]))
+          : undefined;
+        return [{ name, baseUrl, ...locations[name], environments, defaultEnv }];
+      });
+      return validEntries("env", entries, reported);
+    },
+  };
+}
+
+// A YAML or JSON file, e.g.
+// services:
+//   - name: campaign-service
+//     baseUrl: https://campaign.example.com
+//     specPath: /docs/openapi.yaml
+//     tags: [campaigns]
+export function createFileProvider(path: string): DiscoveryProvider {
+  const reported = new Set<string>();
+  return {
+    name: "file",
+    location: path,
+    async load() {
+      // A missing file is an empty list, so it can be created later
+      if (!existsSync(path)) return [];
+      return validEntries("file", serviceList(parseYaml(readFileSync(path, "utf-8"))), reported);
+    },
+    watch(changed) {
+      const listener = () => changed();
+      watchFile(path, { interval: 1_000, persistent: false }, listener);
+      return () => unwatchFile(path, listener);
+    },
+  };
+}
+
+// Consul catalog entries (GET /v1/catalog/service/:name, or the `Service`
+// objects of /v1/health/service/:name) become registry entries; the base URL
+// comes from address and port, spec and health paths from ServiceMeta
+function fromCatalogEntry(entry: unknown): unknown {
+  if (!entry || typeof entry !== "object") return entry;
+  const record = entry as Record<string, unknown>;
+  const service = (record.Service && typeof record.Service === "object" ? record.Service : record) as Record<string, unknown>;
+  const name = service.ServiceName ?? service.Service;
+  if (typeof name !== "string") return entry;
+
+  const meta = (service.ServiceMeta ?? service.Meta ?? {}) as Record<string, string>;
+  const address = service.ServiceAddress || service.Address || record.Address;
+  const port = service.ServicePort ?? service.Port;
+  const tags = service.ServiceTags ?? service.Tags;
+  return {
+    name: name.toLowerCase(),
+    baseUrl: meta.baseUrl ?? `${meta.scheme || "http"}://${address}${port ? `:${port}` : ""}`,
+    specPath: meta.specPath,
+    healthPath: meta.healthPath,
+    description: meta.description,
+    owner: meta.owner,
+    tags: Array.isArray(tags) ? tags : undefined,
+  };
+}
+
+// A catalog endpoint returning registry-shaped entries ({ name, baseUrl, ... })
+// or Consul-style catalog entries
+export function createHttpProvider(url: string, token?: string): DiscoveryProvider {
+  const reported = new Set<string>();
+  return {
+    name: "http",
+    location: url,
+    async load() {
+      const response = await fetch(url, {
+        headers: { Accept: "application/json", ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+        signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const entries = serviceList(await response.json()).map(fromCatalogEntry);
+      return validEntries("http", entries, reported);
+    },
+  };
+}
+
+export function loadDiscoveryOptions(): DiscoveryOptions {
+  const file = process.env.DISCOVERY_FILE;
+  const url = process.env.DISCOVERY_URL;
+  const names = process.env.DISCOVERY_PROVIDERS
+    ? process.env.DISCOVERY_PROVIDERS.split(",").map((name) => name.trim()).filter(Boolean)
+    : ["env", ...(file ? ["file"] : []), ...(url ? ["http"] : [])];
+
+  const providers: DiscoveryProvider[] = [];
+  for (const name of new Set(names)) {
+    if (name === "env") providers.push(createEnvProvider());
+    else if (name === "file" && file) providers.push(createFileProvider(file));
+    else if (name === "http" && url) providers.push(createHttpProvider(url, process.env.DISCOVERY_TOKEN));
+    else if (name === "file" || name === "http") {
+      console.warn(`Discovery provider "${name}" needs ${name === "file" ? "DISCOVERY_FILE" : "DISCOVERY_URL"}, skipping`);
+    } else console.warn(`Unknown discovery provider "${name}", skipping`);
+  }
+
+  const conflicts = (process.env.DISCOVERY_CONFLICTS || "precedence") as ConflictRule;
+  if (!CONFLICT_RULES.includes(conflicts)) {
+    console.warn(`Unknown DISCOVERY_CONFLICTS "${conflicts}", using "precedence"`);
+  }
+
+  return {
+    providers,
+    conflicts: CONFLICT_RULES.includes(conflicts) ? conflicts : "precedence",
+    pollIntervalMs: Number(process.env.DISCOVERY_POLL_MS) || 30_000,
+  };
+}
+
+function mergeEntries(entries: DiscoveredService[]): DiscoveredService {
+  const merged: Record<string, unknown> = { tags: [] };
+  // Later providers first, so the higher-precedence values are written last
+  for (const entry of [...entries].reverse()) {
+    for (const [field, value] of Object.entries(entry)) {
+      if (value === undefined || (Array.isArray(value) && value.length === 0)) continue;
+      merged[field] = value;
+    }
+  }
+  // A spec location from a lower provider must not sit next to the other kind
+  if (merged.specPath && merged.specFile) {
+    const winner = entries.find((entry) => entry.specPath || entry.specFile)!;
+    if (winner.specPath) delete merged.specFile;
+    else delete merged.specPath;
+  }
+  return merged as DiscoveredService;
+}
+
+export function createDiscovery(options: DiscoveryOptions) {
+  const lists = new Map<string, DiscoveredService[]>();
+  const statuses = new Map<string, ProviderStatus>(
+    options.providers.map((provider) => [
+      provider.name,
+      { name: provider.name, location: provider.location, services: 0 },
+    ])
+  );
+  const listeners: ((services: Record<string, DiscoveredService>) => void)[] = [];
+  const stopWatching: (() => void)[] = [];
+  let reportedConflicts = "";
+  let refreshing: Promise<Record<string, DiscoveredService>> | undefined;
+  let timer: NodeJS.Timeout | undefined;
+
+  // Combine the providers' lists in precedence order, applying the conflict rule
+  function resolve(): Record<string, DiscoveredService> {
+    const byName = new Map<string, DiscoveredService[]>();
+    for (const provider of options.providers) {
+      for (const service of lists.get(provider.name) || []) {
+        byName.set(service.name, [...(byName.get(service.name) || []), service]);
+      }
+    }
+
+    const services: Record<string, DiscoveredService> = {};
+    const conflicts: string[] = [];
+    for (const [name, entries] of byName) {
+      if (entries.length > 1) conflicts.push(`"${name}" (${entries.map((entry) => entry.source).join(", ")})`);
+      if (entries.length === 1 || options.conflicts === "precedence") services[name] = entries[0];
+      else if (options.conflicts === "merge") services[name] = mergeEntries(entries);
+    }
+
+    const summary = conflicts.join(", ");
+    if (summary && summary !== reportedConflicts) {
+      const outcome = { precedence: "using the first provider", merge: "merging", exclude: "leaving them out" };
+      console.warn(`Services supplied by several discovery providers, ${outcome[options.conflicts]}: ${summary}`);
+    }
+    reportedConflicts = summary;
+    return services;
+  }
+
+  async function loadAll(): Promise<Record<string, DiscoveredService>> {
+    await Promise.all(
+      options.providers.map(async (provider) => {
+        const status = statuses.get(provider.name)!;
+        try {
+          const services = await provider.load();
+          lists.set(provider.name, services);
+          if (status.lastError) console.log(`Discovery provider "${provider.name}" recovered`);
+          Object.assign(status, { services: services.length, lastLoadedAt: new Date().toISOString(), lastError: undefined });
+        } catch (err) {
+          const error = err instanceof Error ? err.message : "Unknown error";
+          // Keep serving the provider's last good list
+          if (status.lastError !== error) {
+            console.warn(`Discovery provider "${provider.name}" failed, keeping its last services: ${error}`);
+          }
+          status.lastError = error;
+        }
+      })
+    );
+
+    const services = resolve();
+    for (const listener of listeners) {
+      try {
+        listener(services);
+      } catch (err) {
+        console.error("Discovery listener failed:", err);
+      }
+    }
+    return services;
+  }
+
+  // Reload every provider now; concurrent calls share one reload
+  function refresh(): Promise<Record<string, DiscoveredService>> {
+    refreshing ??= loadAll().finally(() => {
+      refreshing = undefined;
+    });
+    return refreshing;
+  }
+
+  // Called with the merged services after every reload
+  function onChange(listener: (services: Record<string, DiscoveredService>) => void): () => void {
+    listeners.push(listener);
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index !== -1) listeners.splice(index, 1);
+    };
+  }
+
+  async function start() {
+    await refresh();
+    for (const provider of options.providers) {
+      if (provider.watch) stopWatching.push(provider.watch(() => void refresh()));
+    }
+    timer = setInterval(() => void refresh(), options.pollIntervalMs);
+    timer.unref();
+  }
+
+  function stop() {
+    if (timer) clearInterval(timer);
+    timer = undefined;
+    stopWatching.splice(0).forEach((unwatch) => unwatch());
+  }
+
+  function providers(): ProviderStatus[] {
+    return options.providers.map((provider) => ({ ...statuses.get(provider.name)! }));
+  }
+
+  return { start, stop, refresh, onChange, providers, conflicts: options.conflicts };
+}
+
+export type Discovery = ReturnType<typeof createDiscovery>;
@@ -0,0 +1,102 @@
+import { ServiceEntry, ServiceEnvironment } from "./services.js";
+
+// Named environments of a service (production, staging, ...). The entry's
+// top-level baseUrl and spec location are its default environment
+// (`defaultEnv`, "default" when unset); `environments` holds the others.
+//
+// A call or spec request names an environment explicitly (?env=, `env`
+// argument) or gets the API key's `defaultEnv` when the service has it,
+// otherwise the service's default. Keys with `allowEnvs` can use only those.
+
+export const DEFAULT_ENV = "default";
+
+// Who is asking: an API key's default environment and allowlist
+export interface EnvironmentPolicy {
+  defaultEnv?: string;
+  allowEnvs?: string[];
+}
+
+export type EnvironmentSelection =
+  | { entry: ServiceEntry }
+  | { error: string; status: 403 | 404; environments: string[] };
+
+export function defaultEnvName(service: ServiceEntry): string {
+  return service.defaultEnv || DEFAULT_ENV;
+}
+
+// Default environment first
+export function environmentNames(service: ServiceEntry): string[] {
+  return [defaultEnvName(service), ...Object.keys(service.environments || {})];
+}
+
+export function allowedEnvironments(service: ServiceEntry, policy: EnvironmentPolicy): string[] {
+  return environmentNames(service).filter((env) => !policy.allowEnvs || policy.allowEnvs.includes(env));
+}
+
+// The service as seen in one environment: that environment's base URL and
+// spec/health locations, `env` set. Undefined if the service doesn't have it.
+export function resolveEnvironment(service: ServiceEntry, env = defaultEnvName(service)): ServiceEntry | undefined {
+  if (env === defaultEnvName(service)) return { ...service, env };
+  const environment: ServiceEnvironment | undefined = service.environments?.[env];
+  if (!environment) return undefined;
+
+  // A spec location in the environment replaces the default one of either kind
+  const specLocation = environment.specPath || environment.specFile
+    ? { specPath: environment.specPath, specFile: environment.specFile }
+    : { specPath: service.specPath, specFile: service.specFile };
+  return {
+    ...service,
+    baseUrl: environment.baseUrl,
+    ...specLocation,
+    healthPath: environment.healthPath ?? service.healthPath,
+    env,
+  };
+}
+
+export function selectEnvironment(
+  service: ServiceEntry,
+  policy: EnvironmentPolicy,
+  requested?: string
+): EnvironmentSelection {
+  const names = environmentNames(service);
+  const env = requested ||
+    (policy.defaultEnv && names.includes(policy.defaultEnv) ? policy.defaultEnv : defaultEnvName(service));
+
+  if (!names.includes(env)) {
+    return {
+      error: `Service "${service.name}" has no environment "${env}"`,
+      status: 404,
+      environments: allowedEnvironments(service, policy),
+    };
+  }
+  if (policy.allowEnvs && !policy.allowEnvs.includes(env)) {
+    return {
+      error: `API key may not use environment "${env}" of "${service.name}"`,
+      status: 403,
+      environments: allowedEnvironments(service, policy),
+    };
+  }
+  return { entry: resolveEnvironment(service, env)! };
+}
+
+// "name" in the default environment, "name@env" in the others. Credentials
+// (SERVICE_AUTH_FILE) and per-service rate limits are looked up by this key,
+// so another environment never receives the default environment's credentials.
+export function environmentKey(entry: ServiceEntry): string {
+  return !entry.env || entry.env === defaultEnvName(entry) ? entry.name : `${entry.name}@${entry.env}`;
+}
+
+// Services resolved to the requested (or the policy's default) environment;
+// services without a usable one are left out
+export function servicesInEnv(
+  services: Record<string, ServiceEntry>,
+  policy: EnvironmentPolicy,
+  requested?: string
+): Record<string, ServiceEntry> {
+  return Object.fromEntries(
+    Object.entries(services).flatMap(([name, service]) => {
+      const selection = selectEnvironment(service, policy, requested);
+      return "entry" in selection ? [[name, selection.entry]] : [];
+    })
+  );
+}
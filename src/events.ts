@@ -0,0 +1,178 @@
+import { createHmac } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import { z } from "zod";
+
+// Registry change events, streamed over GET /events (SSE) and pushed to
+// webhook subscribers from WEBHOOKS_FILE:
+//
+// [{ "url": "https://ops.example.com/hooks/registry", "secret": { "env": "REGISTRY_WEBHOOK_SECRET" },
+//    "events": ["spec.*", "service.down"], "services": ["campaign-service"] }]
+//
+// Deliveries are signed (X-Registry-Signature: sha256=HMAC(secret, "<timestamp>.<body>"))
+// and retried with exponential backoff until a 2xx or the attempt limit.
+
+export const EVENT_TYPES = [
+  "service.added",
+  "service.updated",
+  "service.removed",
+  "spec.changed",
+  "spec.fetch_failed",
+  "service.down",
+  "service.recovered",
+] as const;
+export type EventType = (typeof EVENT_TYPES)[number];
+
+export interface RegistryEvent {
+  id: number;
+  type: EventType;
+  service: string;
+  timestamp: string;
+  data: Record<string, unknown>;
+}
+
+const webhookSchema = z.object({
+  url: z.url({ protocol: /^https?$/ }),
+  // Like service credentials, the secret itself stays out of the file
+  secret: z.object({ env: z.string() }).optional(),
+  events: z.array(z.string()).optional(),
+  services: z.array(z.string()).optional(),
+});
+
+export interface WebhookSubscriber {
+  url: string;
+  secret?: string;
+  events?: string[];
+  services?: string[];
+}
+
+export interface EventOptions {
+  webhooks: WebhookSubscriber[];
+  maxAttempts: number;
+  retryBaseMs: number;
+  timeoutMs: number;
+  // Recent events kept for SSE clients reconnecting with Last-Event-ID
+  replaySize: number;
+}
+
+export function loadEventOptions(): EventOptions {
+  const file = process.env.WEBHOOKS_FILE || "data/webhooks.json";
+  const webhooks: WebhookSubscriber[] = [];
+
+  if (existsSync(file)) {
+    try {
+      const raw = JSON.parse(readFileSync(file, "utf-8"));
+      for (const [i, entry] of (Array.isArray(raw) ? raw : []).entries()) {
+        const parsed = webhookSchema.safeParse(entry);
+        if (!parsed.success) {
+          console.warn(`Skipping webhook #${i + 1} in "${file}": ${parsed.error.issues[0]?.message}`);
+          continue;
+        }
+        const { secret, ...subscriber } = parsed.data;
+        const value = secret && process.env[secret.env];
+        if (secret && !value) console.warn(`Webhook ${subscriber.url}: ${secret.env} is not set, sending unsigned`);
+        webhooks.push({ ...subscriber, secret: value || undefined });
+      }
+    } catch (err) {
+      console.error(`Failed to read webhooks file "${file}":`, err);
+    }
+  }
+
+  return {
+    webhooks,
+    maxAttempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 5,
+    retryBaseMs: Number(process.env.WEBHOOK_RETRY_BASE_MS) || 1_000,
+    timeoutMs: Number(process.env.WEBHOOK_TIMEOUT_MS) || 10_000,
+    replaySize: 100,
+  };
+}
+
+// Patterns are exact types or prefixes like "spec.*"; no patterns match everything
+export function matchesEventFilter(type: string, patterns?: string[]): boolean {
+  if (!patterns || patterns.length === 0) return true;
+  return patterns.some((pattern) =>
+    pattern.endsWith(".*") ? type.startsWith(pattern.slice(0, -1)) : pattern === type
+  );
+}
+
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+export function createEventBus(options: EventOptions) {
+  const listeners = new Set<(event: RegistryEvent) => void>();
+  const recent: RegistryEvent[] = [];
+  let nextId = 1;
+
+  async function deliver(subscriber: WebhookSubscriber, event: RegistryEvent, attempt = 1) {
+    const body = JSON.stringify(event);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "X-Registry-Event": event.type,
+      "X-Registry-Delivery": String(event.id),
+      "X-Registry-Timestamp": timestamp,
+    };
+    if (subscriber.secret) headers["X-Registry-Signature"] = signPayload(subscriber.secret, timestamp, body);
+
+    let failure: string;
+    try {
+      const response = await fetch(subscriber.url, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(options.timeoutMs),
+      });
+      await response.arrayBuffer();
+      if (response.ok) return;
+      failure = `HTTP ${response.status}`;
+    } catch (err) {
+      failure = err instanceof Error ? err.message : "Request failed";
+    }
+
+    if (attempt >= options.maxAttempts) {
+      console.warn(`Giving up on webhook ${subscriber.url} for event ${event.id} (${event.type}) after ${attempt} attempts: ${failure}`);
+      return;
+    }
+    const timer = setTimeout(
+      () => void deliver(subscriber, event, attempt + 1),
+      options.retryBaseMs * 2 ** (attempt - 1)
+    );
+    timer.unref();
+  }
+
+  function emit(type: EventType, service: string, data: Record<string, unknown> = {}) {
+    const event: RegistryEvent = { id: nextId++, type, service, timestamp: new Date().toISOString(), data };
+
+    recent.push(event);
+    if (recent.length > options.replaySize) recent.shift();
+
+    for (const listener of listeners) {
+      try {
+        listener(event);
+      } catch (err) {
+        console.error("Event listener failed:", err);
+      }
+    }
+
+    for (const subscriber of options.webhooks) {
+      if (!matchesEventFilter(type, subscriber.events)) continue;
+      if (subscriber.services && !subscriber.services.includes(service)) continue;
+      void deliver(subscriber, event);
+    }
+  }
+
+  // Returns a function that removes the listener again
+  function subscribe(listener: (event: RegistryEvent) => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  }
+
+  // Buffered events newer than `lastId`, for replay on reconnect
+  function since(lastId: number): RegistryEvent[] {
+    return recent.filter((event) => event.id > lastId);
+  }
+
+  return { emit, subscribe, since };
+}
+
+export type EventBus = ReturnType<typeof createEventBus>;
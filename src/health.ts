@@ -0,0 +1,144 @@
+import { ServiceEntry } from "./services.js";
+
+// Background poller that checks each service's health (or spec) URL
+
+export type ServiceStatus = "up" | "down" | "unknown";
+
+export interface ServiceHealth {
+  status: ServiceStatus;
+  latencyMs?: number;
+  lastCheckedAt?: string;
+  lastSuccessAt?: string;
+  lastError?: string;
+  consecutiveFailures: number;
+  checks: number;
+  successes: number;
+}
+
+// Called when a service goes down, or comes back up after being down
+export type HealthChangeListener = (name: string, health: ServiceHealth, previous: ServiceStatus) => void;
+
+export interface HealthMonitorOptions {
+  intervalMs: number;
+  timeoutMs: number;
+  // Consecutive failed checks before a service is reported down
+  failureThreshold: number;
+}
+
+export function loadHealthOptions(): HealthMonitorOptions {
+  return {
+    intervalMs: Number(process.env.HEALTH_CHECK_INTERVAL_MS) || 30_000,
+    timeoutMs: Number(process.env.HEALTH_CHECK_TIMEOUT_MS) || 5_000,
+    failureThreshold: Number(process.env.HEALTH_FAILURE_THRESHOLD) || 2,
+  };
+}
+
+// The health path, else the configured spec URL, else the bare base URL
+export function healthUrl(service: ServiceEntry): string {
+  if (service.healthPath) return `${service.baseUrl}${service.healthPath}`;
+  return service.specPath ? `${service.baseUrl}${service.specPath}` : service.baseUrl;
+}
+
+export function createHealthMonitor(
+  options: HealthMonitorOptions,
+  getServices: () => Record<string, ServiceEntry>
+) {
+  const records = new Map<string, ServiceHealth>();
+  const listeners: HealthChangeListener[] = [];
+  let timer: NodeJS.Timeout | undefined;
+  let running = false;
+
+  function get(name: string): ServiceHealth {
+    return records.get(name) || { status: "unknown", consecutiveFailures: 0, checks: 0, successes: 0 };
+  }
+
+  function isDown(name: string): boolean {
+    return records.get(name)?.status === "down";
+  }
+
+  async function check(service: ServiceEntry): Promise<ServiceHealth> {
+    const record = get(service.name);
+    const previous = record.status;
+    const started = Date.now();
+    try {
+      const response = await fetch(healthUrl(service), {
+        signal: AbortSignal.timeout(options.timeoutMs),
+      });
+      // Drain the body so the connection can be reused
+      await response.arrayBuffer();
+      // The bare base URL only has to answer; a 404 there still means the service is up
+      const mustSucceed = !!(service.healthPath || service.specPath);
+      if (mustSucceed ? !response.ok : response.status >= 500) throw new Error(`HTTP ${response.status}`);
+
+      record.status = "up";
+      record.lastSuccessAt = new Date().toISOString();
+      record.lastError = undefined;
+      record.consecutiveFailures = 0;
+      record.successes++;
+    } catch (err: unknown) {
+      record.lastError = err instanceof Error ? err.message : "Unknown error";
+      record.consecutiveFailures++;
+      if (record.consecutiveFailures >= options.failureThreshold) {
+        if (record.status !== "down") {
+          console.warn(`Service "${service.name}" is down: ${record.lastError}`);
+        }
+        record.status = "down";
+      }
+    }
+    record.latencyMs = Date.now() - started;
+    record.lastCheckedAt = new Date().toISOString();
+    record.checks++;
+    records.set(service.name, record);
+
+    if (record.status === "down" ? previous !== "down" : previous === "down") {
+      for (const listener of listeners) {
+        try {
+          listener(service.name, record, previous);
+        } catch (err) {
+          console.error(`Health listener failed for "${service.name}":`, err);
+        }
+      }
+    }
+    return record;
+  }
+
+  async function checkAll() {
+    // Skip a tick rather than stacking checks behind slow services
+    if (running) return;
+    running = true;
+    try {
+      const services = getServices();
+      for (const name of records.keys()) {
+        if (!services[name]) records.delete(name);
+      }
+      await Promise.all(Object.values(services).map(check));
+    } finally {
+      running = false;
+    }
+  }
+
+  function start() {
+    if (timer) return;
+    void checkAll();
+    timer = setInterval(() => void checkAll(), options.intervalMs);
+    timer.unref();
+  }
+
+  function stop() {
+    if (timer) clearInterval(timer);
+    timer = undefined;
+  }
+
+  // Returns a function that removes the listener again
+  function onChange(listener: HealthChangeListener): () => void {
+    listeners.push(listener);
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index !== -1) listeners.splice(index, 1);
+    };
+  }
+
+  return { get, isDown, start, stop, onChange };
+}
+
+export type HealthMonitor = ReturnType<typeof createHealthMonitor>;
@@ -0,0 +1,82 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync } from "fs";
+import { join } from "path";
+
+// Snapshot of a service's spec, recorded each time its content hash changes
+
+export interface SpecSnapshot {
+  hash: string;
+  recordedAt: string;
+  spec: unknown;
+}
+
+export interface SpecHistoryOptions {
+  dir: string;
+  maxSnapshots: number;
+}
+
+export function loadHistoryOptions(): SpecHistoryOptions {
+  return {
+    dir: process.env.SPEC_HISTORY_DIR || "data/history",
+    maxSnapshots: Number(process.env.SPEC_HISTORY_LIMIT) || 50,
+  };
+}
+
+export function createSpecHistory(options: SpecHistoryOptions) {
+  // Loaded lazily per service, oldest snapshot first
+  const snapshots = new Map<string, SpecSnapshot[]>();
+
+  function filePath(service: string): string {
+    return join(options.dir, `${encodeURIComponent(service)}.json`);
+  }
+
+  function load(service: string): SpecSnapshot[] {
+    let list = snapshots.get(service);
+    if (list) return list;
+
+    list = [];
+    const path = filePath(service);
+    if (existsSync(path)) {
+      try {
+        list = (JSON.parse(readFileSync(path, "utf-8")) as { snapshots?: SpecSnapshot[] }).snapshots || [];
+      } catch (err) {
+        console.error(`Failed to read spec history "${path}":`, err);
+      }
+    }
+    snapshots.set(service, list);
+    return list;
+  }
+
+  function save(service: string, list: SpecSnapshot[]) {
+    mkdirSync(options.dir, { recursive: true });
+    const path = filePath(service);
+    const tmpPath = `${path}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify({ snapshots: list }));
+    renameSync(tmpPath, path);
+  }
+
+  // Returns the new snapshot, or undefined when the hash matches the latest one
+  function record(service: string, spec: unknown, hash: string): SpecSnapshot | undefined {
+    const list = load(service);
+    if (list[list.length - 1]?.hash === hash) return undefined;
+
+    const snapshot: SpecSnapshot = { hash, recordedAt: new Date().toISOString(), spec };
+    list.push(snapshot);
+    if (list.length > options.maxSnapshots) list.splice(0, list.length - options.maxSnapshots);
+    save(service, list);
+    return snapshot;
+  }
+
+  function list(service: string): SpecSnapshot[] {
+    return load(service);
+  }
+
+  // Look up a snapshot by full hash or unique prefix
+  function find(service: string, hashPrefix: string): SpecSnapshot | undefined {
+    const matches = load(service).filter((s) => s.hash.startsWith(hashPrefix));
+    return matches.length === 1 ? matches[0] : undefined;
+  }
+
+  return { record, list, find };
+}
+
+export type SpecHistory = ReturnType<typeof createSpecHistory>;
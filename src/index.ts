@@ -1,10 +1,51 @@
 import express from "express";
 import { readFileSync, existsSync } from "fs";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
 import { fileURLToPath } from "url";
 import { dirname, join } from "path";
-import { registerMcpEndpoint } from "./mcp.js";
+import { loadMcpSessionOptions, registerMcpEndpoint } from "./mcp.js";
 import cors from "cors";
-import { requireApiKey } from "./auth.js";
+import { ApiKeyIdentity, canAccessService, getApiKey, requireApiKey, requireScope } from "./auth.js";
+import { createSpecCache, loadCacheOptions, SpecResult } from "./cache.js";
+import {
+  createServiceStore,
+  serviceInputSchema,
+  serviceNameSchema,
+  ServiceEntry,
+  ServiceStoreError,
+  specSource,
+  specUrl,
+} from "./services.js";
+import { mergeSpecs } from "./merge.js";
+import { DETAIL_LEVELS, DetailLevel, OpenApiSpec, summarizeEndpoints } from "./openapi.js";
+import { createSpecHistory, loadHistoryOptions } from "./history.js";
+import { diffSpecs } from "./diff.js";
+import { createHealthMonitor, healthUrl, loadHealthOptions } from "./health.js";
+import { createCredentialStore } from "./credentials.js";
+import { AuditRecord, createAuditLog, loadAuditOptions } from "./audit.js";
+import { createRateLimiter, loadRateLimitOptions, RateLimitError } from "./ratelimit.js";
+import { createSearchIndex, DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT, searchOperations } from "./search.js";
+import { loadOperationToolOptions } from "./tools.js";
+import { lintSpec, loadLintOptions, RULES } from "./lint.js";
+import { ClientSource, createClientGenerator } from "./codegen.js";
+import { mockResponse } from "./mock.js";
+import { loadPassthroughOptions, proxyRequest } from "./passthrough.js";
+import { apiCaller } from "./proxy.js";
+import { runWorkflow, workflowSchema } from "./workflow.js";
+import { createEventBus, loadEventOptions, matchesEventFilter, RegistryEvent } from "./events.js";
+import { createDiscovery, loadDiscoveryOptions } from "./discovery.js";
+import {
+  allowedEnvironments,
+  defaultEnvName,
+  EnvironmentPolicy,
+  environmentKey,
+  environmentNames,
+  resolveEnvironment,
+  selectEnvironment,
+  servicesInEnv,
+} from "./environments.js";
+import { createRegistryMetrics } from "./metrics.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -14,70 +55,210 @@ const app = express();
 const PORT = process.env.PORT || 3000;
 
 app.use(cors());
-app.use(express.json());
+
+const metrics = createRegistryMetrics({
+  services: () => Object.values(serviceStore.all()).map((service) => ({
+    source: service.source,
+    status: healthMonitor.get(service.name).status,
+  })),
+  mcpSessions: () => mcp.sessionCount(),
+});
+
+// Request count and duration per route pattern (raw paths would make labels unbounded)
+app.use((req, res, next) => {
+  const started = performance.now();
+  res.on("close", () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : "unmatched";
+    metrics.httpRequest(req.method, route, res.statusCode, (performance.now() - started) / 1000);
+  });
+  next();
+});
+
+// /proxy streams request bodies upstream untouched
+const jsonParser = express.json();
+app.use((req, res, next) => (req.path.startsWith("/proxy/") ? next() : jsonParser(req, res, next)));
 
 app.use((req, res, next) => {
   if (req.path === "/health" || req.path === "/openapi.json") return next();
   requireApiKey(req, res, next);
 });
 
-// Service registry: name → base URL
-// Configure via SERVICES env var: "service1=https://url1,service2=https://url2"
-// Or via individual env vars: SERVICE_<NAME>_URL=https://url
-function loadServices(): Record<string, string> {
-  const services: Record<string, string> = {};
+const rateLimiter = createRateLimiter(loadRateLimitOptions());
 
-  // Method 1: SERVICES env var (comma-separated)
-  const servicesEnv = process.env.SERVICES;
-  if (servicesEnv) {
-    for (const entry of servicesEnv.split(",")) {
-      const [name, url] = entry.trim().split("=");
-      if (name && url) {
-        services[name.trim()] = url.trim();
-      }
-    }
+// Per-API-key token bucket, applied to every authenticated request. /mcp
+// charges its JSON-RPC requests itself (tools answer a limited client with a
+// tool result, not an HTTP 429) and /workflows/run is charged per step.
+const KEY_LIMIT_EXEMPT = ["/health", "/openapi.json", "/mcp", "/workflows/run"];
+
+app.use((req, res, next) => {
+  if (KEY_LIMIT_EXEMPT.includes(req.path)) return next();
+  const apiKey = getApiKey(res);
+  try {
+    rateLimiter.checkKey(apiKey.name, apiKey.rateLimit);
+  } catch (err) {
+    if (!(err instanceof RateLimitError)) throw err;
+    res.setHeader("Retry-After", String(err.retryAfterSeconds));
+    return res.status(429).json({ error: err.message, retryAfterSeconds: err.retryAfterSeconds });
+  }
+  next();
+});
+
+const serviceStore = createServiceStore();
+
+const specCache = createSpecCache(loadCacheOptions());
+
+const specHistory = createSpecHistory(loadHistoryOptions());
+
+const searchIndex = createSearchIndex();
+
+const lintOptions = loadLintOptions();
+
+const clientGenerator = createClientGenerator();
+
+const passthroughOptions = loadPassthroughOptions();
+
+const events = createEventBus(loadEventOptions());
+
+const discovery = createDiscovery(loadDiscoveryOptions());
+
+// Swap the discovery providers' services into the registry; the initial load
+// is not reported as changes
+let discoveryLoaded = false;
+discovery.onChange((services) => {
+  const { added, updated, removed } = serviceStore.replaceDiscovered(services);
+  if (!discoveryLoaded) {
+    discoveryLoaded = true;
+    return;
   }
+  const summary = Object.entries({ added, updated, removed })
+    .filter(([, names]) => names.length > 0)
+    .map(([change, names]) => `${change} ${names.join(", ")}`);
+  if (summary.length === 0) return;
+  console.log(`Discovery: ${summary.join("; ")}`);
+  for (const name of added) events.emit("service.added", name, { baseUrl: serviceStore.get(name)?.baseUrl });
+  for (const name of updated) events.emit("service.updated", name, { baseUrl: serviceStore.get(name)?.baseUrl });
+  for (const name of removed) events.emit("service.removed", name);
+});
 
-  // Method 2: Individual env vars: <NAME>_SERVICE_URL or <NAME>_WORKER_URL
-  // Skip RAILWAY_* vars to avoid picking up Railway internal env vars
-  for (const [key, value] of Object.entries(process.env)) {
-    if (key.startsWith("RAILWAY_")) continue;
-    const match =
-      key.match(/^(.+)_SERVICE_URL$/) ||
-      key.match(/^(.+)_WORKER_URL$/);
-    if (match && value) {
-      const name = match[1].toLowerCase().replace(/_/g, "-");
-      services[name] = value;
+// Snapshot and re-index every service whose spec content changed
+specCache.onUpdate((key, spec, hash) => {
+  for (const service of Object.values(serviceStore.all())) {
+    if (specSource(service).key !== key) continue;
+    const previousHash = specHistory.list(service.name).at(-1)?.hash;
+    if (specHistory.record(service.name, spec, hash)) {
+      console.log(`Recorded new spec version for "${service.name}" (${hash.slice(0, 12)})`);
+      events.emit("spec.changed", service.name, { hash, previousHash });
     }
+    searchIndex.sync(service, { spec, hash });
   }
+});
 
-  // Validate URLs: must have a protocol, skip invalid entries
-  for (const [name, url] of Object.entries(services)) {
-    if (!/^https?:\/\//.test(url)) {
-      console.warn(`Skipping service "${name}": invalid URL "${url}" (missing https:// prefix)`);
-      delete services[name];
+// Cache and fetch metrics for every service environment behind the cache key,
+// labelled "name" or "name@env"
+specCache.onStats((key, event) => {
+  for (const service of Object.values(serviceStore.all())) {
+    for (const env of environmentNames(service)) {
+      const entry = resolveEnvironment(service, env)!;
+      if (specSource(entry).key !== key) continue;
+      if (event.type === "lookup") metrics.specLookup(environmentKey(entry), event.result);
+      else metrics.specFetch(environmentKey(entry), event.durationMs / 1000, event.error !== undefined);
     }
   }
+});
+
+specCache.onError((key, error) => {
+  for (const service of Object.values(serviceStore.all())) {
+    if (specSource(service).key === key) events.emit("spec.fetch_failed", service.name, { error });
+  }
+});
+
+const credentials = createCredentialStore();
+
+const auditLog = createAuditLog(loadAuditOptions());
 
-  return services;
+// Requests that reached a service, from call_api and /proxy
+function onUpstreamCall(service: string, method: string, status: number | undefined, durationMs: number) {
+  metrics.upstreamCall(service, method, status, durationMs / 1000);
 }
 
-const SERVICES = loadServices();
+const healthMonitor = createHealthMonitor(loadHealthOptions(), () => serviceStore.all());
 
-async function fetchSpec(url: string): Promise<{ spec: unknown; error?: string }> {
-  try {
-    const response = await fetch(`${url}/openapi.json`, {
-      signal: AbortSignal.timeout(10_000),
-    });
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
-    }
-    const spec = await response.json();
-    return { spec };
-  } catch (err: unknown) {
-    const error = err instanceof Error ? err.message : "Unknown error";
-    return { spec: null, error };
+healthMonitor.onChange((name, health) => {
+  events.emit(health.status === "down" ? "service.down" : "service.recovered", name, {
+    status: health.status,
+    lastError: health.lastError,
+  });
+});
+
+// Services the health monitor reports as down are served from the cache only,
+// so callers don't wait on an upstream timeout for each of them (local spec
+// files don't depend on the service and are always read)
+// (health is only monitored for the default environment)
+async function fetchSpec(service: ServiceEntry): Promise<SpecResult> {
+  const monitored = environmentKey(service) === service.name;
+  if (monitored && healthMonitor.isDown(service.name) && !service.specFile) {
+    const error = `Service is down: ${healthMonitor.get(service.name).lastError}`;
+    const cached = specCache.peek(specSource(service).key);
+    return cached ? { ...cached, error } : { spec: null, error };
+  }
+  return specCache.get(specSource(service));
+}
+
+// Services the calling API key is allowed to see
+function visibleServices(res: express.Response): Record<string, ServiceEntry> {
+  const apiKey = getApiKey(res);
+  return Object.fromEntries(
+    Object.entries(serviceStore.all()).filter(([name]) => canAccessService(apiKey, name))
+  );
+}
+
+function findService(res: express.Response, name: string): ServiceEntry | undefined {
+  return canAccessService(getApiKey(res), name) ? serviceStore.get(name) : undefined;
+}
+
+// The service in the environment a request names (?env=, X-Registry-Env) or
+// else the key's default one; sends the 404/403 when it can't be used
+function selectServiceEnv(res: express.Response, service: ServiceEntry, requested: unknown) {
+  const selection = selectEnvironment(service, getApiKey(res), typeof requested === "string" ? requested : undefined);
+  if ("error" in selection) {
+    res.status(selection.status).json({ error: selection.error, environments: selection.environments });
+    return undefined;
   }
+  return selection.entry;
+}
+
+// Visible services resolved to the requested (or the key's default)
+// environment; services without a usable one are left out
+function visibleServicesInEnv(res: express.Response, requested: unknown): Record<string, ServiceEntry> {
+  return servicesInEnv(visibleServices(res), getApiKey(res), typeof requested === "string" ? requested : undefined);
+}
+
+// Health, spec history and events only cover a service's default
+// environment, so keys whose allowlist leaves it out don't see them (events
+// about a removed service reach every key that can access the name)
+function canReadDefaultEnv(apiKey: ApiKeyIdentity, name: string): boolean {
+  const service = serviceStore.get(name);
+  return canAccessService(apiKey, name) &&
+    (!service || allowedEnvironments(service, apiKey).includes(defaultEnvName(service)));
+}
+
+function describeService(service: ServiceEntry, policy: EnvironmentPolicy = {}) {
+  const monitored = environmentKey(service) === service.name;
+  return {
+    name: service.name,
+    env: service.env,
+    environments: service.environments ? allowedEnvironments(service, policy) : undefined,
+    baseUrl: service.baseUrl,
+    // Where the spec was last loaded from (for discovered and file specs)
+    openapiUrl: specCache.peek(specSource(service).key)?.location ?? specUrl(service),
+    healthUrl: healthUrl(service),
+    description: service.description,
+    owner: service.owner,
+    tags: service.tags,
+    source: service.source,
+    authInjected: credentials.has(environmentKey(service), service.baseUrl) || undefined,
+    health: monitored ? healthMonitor.get(service.name) : undefined,
+  };
 }
 
 // OpenAPI spec
@@ -94,52 +275,282 @@ app.get("/health", (_req, res) => {
   res.json({
     status: "ok",
     service: "api-registry",
-    registeredServices: Object.keys(SERVICES).length,
+    registeredServices: Object.keys(serviceStore.all()).length,
+  });
+});
+
+// Aggregated uptime view from the background health monitor
+app.get("/status", requireScope("read:specs"), (_req, res) => {
+  const apiKey = getApiKey(res);
+  const monitored = Object.values(visibleServices(res)).filter((service) => canReadDefaultEnv(apiKey, service.name));
+  const services = monitored.map((service) => {
+    const health = healthMonitor.get(service.name);
+    return {
+      name: service.name,
+      status: health.status,
+      uptime: health.checks > 0 ? Math.round((health.successes / health.checks) * 10_000) / 100 : null,
+      latencyMs: health.latencyMs ?? null,
+      lastCheckedAt: health.lastCheckedAt ?? null,
+      lastSuccessAt: health.lastSuccessAt ?? null,
+      lastError: health.lastError ?? null,
+      consecutiveFailures: health.consecutiveFailures,
+    };
+  });
+
+  const counts = { up: 0, down: 0, unknown: 0 };
+  for (const service of services) counts[service.status]++;
+
+  res.json({
+    status: counts.down > 0 ? "degraded" : "ok",
+    total: services.length,
+    ...counts,
+    services,
   });
 });
 
 // List all registered services
-app.get("/services", (_req, res) => {
-  const services = Object.entries(SERVICES).map(([name, url]) => ({
-    name,
-    baseUrl: url,
-    openapiUrl: `${url}/openapi.json`,
-  }));
+// ?env=staging describes each one as deployed there (services without it are left out)
+app.get("/services", requireScope("read:specs"), (req, res) => {
+  const apiKey = getApiKey(res);
+  const services = Object.values(visibleServicesInEnv(res, req.query.env))
+    .map((service) => describeService(service, apiKey));
   res.json({ services });
 });
 
+function sendStoreError(res: express.Response, err: unknown) {
+  if (err instanceof ServiceStoreError) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  throw err;
+}
+
+function assertServiceAccess(res: express.Response, name: string) {
+  if (!canAccessService(getApiKey(res), name)) {
+    throw new ServiceStoreError(`API key is not allowed to manage service "${name}"`, 403);
+  }
+}
+
+function parseRegistration(rawName: unknown, body: unknown) {
+  const name = serviceNameSchema.safeParse(rawName);
+  const input = serviceInputSchema.safeParse(body);
+  if (!name.success || !input.success) {
+    return { issues: [...(name.error?.issues || []), ...(input.error?.issues || [])] };
+  }
+  return { name: name.data, input: input.data };
+}
+
+// Register a service at runtime (persisted across restarts)
+app.post("/services", requireScope("admin:registry"), (req, res) => {
+  const registration = parseRegistration(req.body?.name, req.body);
+  if ("issues" in registration) {
+    return res.status(400).json({ error: "Invalid service registration", issues: registration.issues });
+  }
+
+  try {
+    assertServiceAccess(res, registration.name);
+    const entry = serviceStore.create(registration.name, registration.input);
+    events.emit("service.added", entry.name, { baseUrl: entry.baseUrl });
+    res.status(201).json(describeService(entry));
+  } catch (err) {
+    sendStoreError(res, err);
+  }
+});
+
+// Create or replace a runtime service (idempotent self-registration)
+app.put("/services/:name", requireScope("admin:registry"), (req, res) => {
+  const registration = parseRegistration(req.params.name, req.body);
+  if ("issues" in registration) {
+    return res.status(400).json({ error: "Invalid service registration", issues: registration.issues });
+  }
+
+  try {
+    assertServiceAccess(res, registration.name);
+    const existed = serviceStore.get(registration.name) !== undefined;
+    const entry = serviceStore.put(registration.name, registration.input);
+    events.emit(existed ? "service.updated" : "service.added", entry.name, { baseUrl: entry.baseUrl });
+    res.json(describeService(entry));
+  } catch (err) {
+    sendStoreError(res, err);
+  }
+});
+
+// Remove a runtime service (discovered services are read-only)
+app.delete("/services/:name", requireScope("admin:registry"), (req, res) => {
+  try {
+    assertServiceAccess(res, req.params.name);
+    serviceStore.remove(req.params.name);
+    events.emit("service.removed", req.params.name);
+    res.json({ success: true });
+  } catch (err) {
+    sendStoreError(res, err);
+  }
+});
+
+// Spec versions recorded for a service, newest first
+app.get("/services/:name/history", requireScope("read:specs"), (req, res) => {
+  const { name } = req.params;
+  // Checked before touching the history, which caches every name it loads
+  if (!serviceStore.get(name) || !canReadDefaultEnv(getApiKey(res), name)) {
+    return res.status(404).json({ error: `Service "${name}" not found` });
+  }
+  const snapshots = specHistory.list(name);
+
+  res.json({
+    service: name,
+    snapshots: [...snapshots].reverse().map((snapshot) => {
+      const spec = snapshot.spec as OpenApiSpec;
+      return {
+        hash: snapshot.hash,
+        recordedAt: snapshot.recordedAt,
+        title: spec.info?.title,
+        version: spec.info?.version,
+        endpointCount: summarizeEndpoints(spec).length,
+      };
+    }),
+  });
+});
+
+// Compare two spec versions: ?from=<hash>&to=<hash> (hash prefixes accepted)
+// Defaults to the two most recent snapshots
+app.get("/services/:name/diff", requireScope("read:specs"), (req, res) => {
+  const { name } = req.params;
+  if (!serviceStore.get(name) || !canReadDefaultEnv(getApiKey(res), name)) {
+    return res.status(404).json({ error: `Service "${name}" not found` });
+  }
+  const snapshots = specHistory.list(name);
+  const fromHash = typeof req.query.from === "string" ? req.query.from : snapshots[snapshots.length - 2]?.hash;
+  const toHash = typeof req.query.to === "string" ? req.query.to : snapshots[snapshots.length - 1]?.hash;
+
+  if (!fromHash || !toHash) {
+    return res.status(404).json({ error: `Service "${name}" has fewer than two recorded spec versions` });
+  }
+
+  const from = specHistory.find(name, fromHash);
+  const to = specHistory.find(name, toHash);
+  if (!from || !to) {
+    return res.status(404).json({
+      error: `Snapshot "${!from ? fromHash : toHash}" not found (or ambiguous) for "${name}"`,
+    });
+  }
+
+  const diff = diffSpecs(from.spec as OpenApiSpec, to.spec as OpenApiSpec);
+  res.json({
+    service: name,
+    from: { hash: from.hash, recordedAt: from.recordedAt },
+    to: { hash: to.hash, recordedAt: to.recordedAt },
+    breaking: diff.breaking.length > 0,
+    breakingChanges: diff.breaking,
+    nonBreakingChanges: diff.nonBreaking,
+  });
+});
+
+// Compare a service's current spec across environments: ?from=<env>&to=<env>
+// Defaults to the default environment against the first other one
+app.get("/services/:name/environments/diff", requireScope("read:specs"), async (req, res) => {
+  const { name } = req.params;
+  const service = findService(res, name);
+  if (!service) {
+    return res.status(404).json({ error: `Service "${name}" not found` });
+  }
+
+  const environments = allowedEnvironments(service, getApiKey(res));
+  const fromEnv = typeof req.query.from === "string" ? req.query.from : environments[0];
+  const toEnv = typeof req.query.to === "string" ? req.query.to : environments.find((env) => env !== fromEnv);
+  if (!fromEnv || !toEnv) {
+    return res.status(404).json({ error: `Service "${name}" has fewer than two environments`, environments });
+  }
+
+  const from = selectServiceEnv(res, service, fromEnv);
+  if (!from) return;
+  const to = selectServiceEnv(res, service, toEnv);
+  if (!to) return;
+
+  const [fromResult, toResult] = await Promise.all([fetchSpec(from), fetchSpec(to)]);
+  for (const [env, result] of [[fromEnv, fromResult], [toEnv, toResult]] as const) {
+    if (!result.spec) {
+      return res.status(502).json({ error: `Failed to fetch spec for "${name}" in "${env}"`, detail: result.error });
+    }
+  }
+
+  const diff = diffSpecs(fromResult.spec as OpenApiSpec, toResult.spec as OpenApiSpec);
+  res.json({
+    service: name,
+    from: { env: fromEnv, baseUrl: from.baseUrl, fetchedAt: fromResult.fetchedAt },
+    to: { env: toEnv, baseUrl: to.baseUrl, fetchedAt: toResult.fetchedAt },
+    identical: diff.breaking.length === 0 && diff.nonBreaking.length === 0,
+    breaking: diff.breaking.length > 0,
+    breakingChanges: diff.breaking,
+    nonBreakingChanges: diff.nonBreaking,
+  });
+});
+
+// One OpenAPI 3.x document combining every service's spec
+// Optional filter: ?services=a,b; ?env=staging merges that environment's specs
+app.get("/openapi/merged", requireScope("read:specs"), async (req, res) => {
+  const all = visibleServicesInEnv(res, req.query.env);
+  const requested = typeof req.query.services === "string"
+    ? req.query.services.split(",").map((s) => s.trim()).filter(Boolean)
+    : Object.keys(all);
+
+  const unknown = requested.filter((name) => !all[name]);
+  if (unknown.length > 0) {
+    return res.status(404).json({
+      error: `Service(s) not found: ${unknown.join(", ")}`,
+      available: Object.keys(all),
+    });
+  }
+
+  const inputs = await Promise.all(
+    requested.map(async (name) => {
+      const result = await fetchSpec(all[name]);
+      return { name, baseUrl: all[name].baseUrl, spec: result.spec, error: result.error };
+    })
+  );
+
+  res.json(mergeSpecs(inputs));
+});
+
 // Get OpenAPI spec for a specific service
-app.get("/openapi/:service", async (req, res) => {
+// ?env=staging serves the spec of that environment
+app.get("/openapi/:service", requireScope("read:specs"), async (req, res) => {
   const { service } = req.params;
-  const url = SERVICES[service];
+  const registered = findService(res, service);
 
-  if (!url) {
+  if (!registered) {
     return res.status(404).json({
       error: `Service "${service}" not found`,
-      available: Object.keys(SERVICES),
+      available: Object.keys(visibleServices(res)),
     });
   }
 
-  const result = await fetchSpec(url);
-  if (result.error) {
+  const entry = selectServiceEnv(res, registered, req.query.env);
+  if (!entry) return;
+
+  const result = await fetchSpec(entry);
+  if (!result.spec) {
     return res.status(502).json({
       error: `Failed to fetch spec for "${service}"`,
       detail: result.error,
     });
   }
 
+  if (result.stale) res.setHeader("X-Spec-Stale", "true");
   res.json(result.spec);
 });
 
 // Fetch all specs at once
-app.get("/openapi", async (_req, res) => {
+// ?env=staging fetches that environment's specs (services without it are left out)
+app.get("/openapi", requireScope("read:specs"), async (req, res) => {
   const results = await Promise.all(
-    Object.entries(SERVICES).map(async ([name, url]) => {
-      const result = await fetchSpec(url);
+    Object.entries(visibleServicesInEnv(res, req.query.env)).map(async ([name, service]) => {
+      const result = await fetchSpec(service);
       return {
         name,
-        baseUrl: url,
+        env: service.env,
+        baseUrl: service.baseUrl,
         spec: result.spec,
+        stale: result.stale || false,
+        fetchedAt: result.fetchedAt || null,
         error: result.error || null,
       };
     })
@@ -147,83 +558,68 @@ app.get("/openapi", async (_req, res) => {
   res.json({ services: results });
 });
 
+// Ranked full-text search over every visible service's operations
+// ?env=staging searches that environment's specs
+app.get("/search", requireScope("read:specs"), async (req, res) => {
+  const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+  if (!query) {
+    return res.status(400).json({ error: "Query parameter \"q\" is required" });
+  }
+  const limit = Math.max(1, Math.min(Math.trunc(Number(req.query.limit)) || DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT));
+
+  const { results, unavailable } = await searchOperations(
+    { getServices: () => serviceStore.all(), fetchSpec, searchIndex },
+    visibleServicesInEnv(res, req.query.env),
+    query,
+    limit
+  );
+
+  res.json({
+    query,
+    count: results.length,
+    results: results.map((result) => ({
+      ...result,
+      serviceDown: healthMonitor.isDown(result.service) || undefined,
+    })),
+    unavailable: unavailable.length > 0 ? unavailable : undefined,
+  });
+});
+
 // LLM-friendly context endpoint
-// Returns a compact summary of all services and their endpoints
-app.get("/llm-context", async (_req, res) => {
+// Returns a compact summary of all services and their endpoints.
+// ?detail=brief (default) renders schemas as compact type strings;
+// ?detail=full adds descriptions and structured field lists;
+// ?env=staging describes that environment (services without it are left out)
+app.get("/llm-context", requireScope("read:specs"), async (req, res) => {
+  const detail = req.query.detail ?? "brief";
+  if (!DETAIL_LEVELS.includes(detail as DetailLevel)) {
+    return res.status(400).json({ error: `detail must be one of: ${DETAIL_LEVELS.join(", ")}` });
+  }
+
   const services = await Promise.all(
-    Object.entries(SERVICES).map(async ([name, url]) => {
-      const result = await fetchSpec(url);
+    Object.entries(visibleServicesInEnv(res, req.query.env)).map(async ([name, service]) => {
+      const result = await fetchSpec(service);
 
-      if (result.error || !result.spec) {
+      if (!result.spec) {
         return {
           service: name,
-          baseUrl: url,
+          env: service.env,
+          baseUrl: service.baseUrl,
           error: result.error,
           endpoints: [],
         };
       }
 
-      const spec = result.spec as {
-        info?: { title?: string; description?: string };
-        paths?: Record<string, Record<string, {
-          summary?: string;
-          description?: string;
-          parameters?: Array<{
-            name: string;
-            in: string;
-            required?: boolean;
-            schema?: { type?: string };
-          }>;
-          requestBody?: {
-            content?: {
-              "application/json"?: {
-                schema?: { properties?: Record<string, unknown> };
-              };
-            };
-          };
-        }>>;
-      };
-
-      const endpoints = Object.entries(spec.paths || {}).flatMap(
-        ([path, methods]) =>
-          Object.entries(methods)
-            .filter(([method]) =>
-              ["get", "post", "put", "patch", "delete"].includes(method)
-            )
-            .map(([method, details]) => {
-              const params = (details.parameters || [])
-                .filter((p) => p.in !== "header")
-                .map((p) => ({
-                  name: p.name,
-                  in: p.in,
-                  required: p.required || false,
-                  type: p.schema?.type,
-                }));
-
-              const bodyProps = details.requestBody?.content?.[
-                "application/json"
-              ]?.schema?.properties
-                ? Object.keys(
-                    details.requestBody.content["application/json"].schema
-                      .properties
-                  )
-                : [];
-
-              return {
-                method: method.toUpperCase(),
-                path,
-                summary: details.summary || details.description || "",
-                params: params.length > 0 ? params : undefined,
-                bodyFields: bodyProps.length > 0 ? bodyProps : undefined,
-              };
-            })
-      );
+      const spec = result.spec as OpenApiSpec;
+      const endpoints = summarizeEndpoints(spec, detail as DetailLevel);
 
       return {
         service: name,
-        baseUrl: url,
+        env: service.env,
+        baseUrl: service.baseUrl,
         title: spec.info?.title,
         description: spec.info?.description,
+        stale: result.stale || undefined,
         endpoints,
       };
     })
@@ -233,20 +629,385 @@ app.get("/llm-context", async (_req, res) => {
     _description:
       "API Registry - Use this to discover available services and their endpoints. Each service exposes a REST API.",
     _usage:
-      "To call an endpoint: send HTTP request to {baseUrl}{path} with the documented method, params, and body fields.",
+      "To call an endpoint: send HTTP request to {baseUrl}{path} with the documented method, params, and body. Fields marked `?` are optional.",
     services,
   });
 });
 
+// Spec quality scorecard: per-service score and finding counts, worst first
+// ?env=staging lints that environment's specs
+app.get("/lint", requireScope("read:specs"), async (req, res) => {
+  const services = await Promise.all(
+    Object.entries(visibleServicesInEnv(res, req.query.env)).map(async ([name, service]) => {
+      const result = await fetchSpec(service);
+      if (!result.spec) return { service: name, score: null, error: result.error };
+      const { score, operations, counts } = lintSpec(result.spec as OpenApiSpec, lintOptions);
+      return { service: name, score, operations, counts };
+    })
+  );
+
+  const scores = services.flatMap((s) => (s.score === null ? [] : [s.score]));
+  res.json({
+    averageScore: scores.length > 0 ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) : null,
+    services: services.sort((a, b) => (a.score ?? -1) - (b.score ?? -1)),
+    rules: RULES.map((rule) => ({
+      id: rule.id,
+      severity: lintOptions[rule.id] ?? rule.severity,
+      description: rule.description,
+    })),
+  });
+});
+
+// Every finding for one service, grouped by severity (?env=staging for that environment)
+app.get("/lint/:service", requireScope("read:specs"), async (req, res) => {
+  const { service } = req.params;
+  const registered = findService(res, service);
+
+  if (!registered) {
+    return res.status(404).json({
+      error: `Service "${service}" not found`,
+      available: Object.keys(visibleServices(res)),
+    });
+  }
+
+  const entry = selectServiceEnv(res, registered, req.query.env);
+  if (!entry) return;
+
+  const result = await fetchSpec(entry);
+  if (!result.spec) {
+    return res.status(502).json({
+      error: `Failed to fetch spec for "${service}"`,
+      detail: result.error,
+    });
+  }
+
+  res.json({
+    service,
+    env: entry.env,
+    stale: result.stale || undefined,
+    ...lintSpec(result.spec as OpenApiSpec, lintOptions),
+  });
+});
+
+// Generated TypeScript client for one service (?env=staging for that environment)
+app.get("/clients/:service.ts", requireScope("read:specs"), async (req, res) => {
+  const { service } = req.params;
+  const registered = findService(res, service);
+
+  if (!registered) {
+    return res.status(404).json({
+      error: `Service "${service}" not found`,
+      available: Object.keys(visibleServices(res)),
+    });
+  }
+
+  const entry = selectServiceEnv(res, registered, req.query.env);
+  if (!entry) return;
+
+  const result = await fetchSpec(entry);
+  if (!result.spec) {
+    return res.status(502).json({
+      error: `Failed to fetch spec for "${service}"`,
+      detail: result.error,
+    });
+  }
+
+  if (result.stale) res.setHeader("X-Spec-Stale", "true");
+  res.type("text/typescript").send(clientGenerator.forService({ service: entry, result }));
+});
+
+// One client module covering every visible service whose spec is available
+// ?env=staging generates it for that environment
+app.get("/clients.ts", requireScope("read:specs"), async (req, res) => {
+  const sources: ClientSource[] = [];
+  const unavailable: string[] = [];
+  await Promise.all(
+    Object.values(visibleServicesInEnv(res, req.query.env)).map(async (service) => {
+      const result = await fetchSpec(service);
+      if (result.spec) sources.push({ service, result });
+      else unavailable.push(service.name);
+    })
+  );
+
+  if (unavailable.length > 0) res.setHeader("X-Unavailable-Services", unavailable.sort().join(","));
+  res.type("text/typescript").send(clientGenerator.bundle(sources));
+});
+
+// Spec-driven mock of a service; nothing is sent upstream
+// X-Registry-Env: staging mocks that environment's spec
+app.all("/mock/:service{/*path}", requireScope("read:specs"), async (req, res) => {
+  const { service } = req.params;
+  const registered = findService(res, service);
+
+  if (!registered) {
+    return res.status(404).json({
+      error: `Service "${service}" not found`,
+      available: Object.keys(visibleServices(res)),
+    });
+  }
+
+  const entry = selectServiceEnv(res, registered, req.get("x-registry-env"));
+  if (!entry) return;
+
+  const result = await fetchSpec(entry);
+  if (!result.spec) {
+    return res.status(502).json({
+      error: `Failed to fetch spec for "${service}"`,
+      detail: result.error,
+    });
+  }
+
+  const segments = (req.params as { path?: string[] }).path || [];
+  const queryStart = req.originalUrl.indexOf("?");
+  const mock = mockResponse(result.spec as OpenApiSpec, {
+    method: req.method,
+    path: `/${segments.map(encodeURIComponent).join("/")}${queryStart >= 0 ? req.originalUrl.slice(queryStart) : ""}`,
+    body: ["POST", "PUT", "PATCH"].includes(req.method) ? req.body : undefined,
+    headers: req.headers,
+  });
+
+  if (mock.operation) res.setHeader("X-Mock-Operation", `${mock.operation.method} ${mock.operation.path}`);
+  res.status(mock.status);
+  if (mock.body === undefined) return res.end();
+  const text = typeof mock.body === "string" && !/json/i.test(mock.contentType || "")
+    ? mock.body
+    : JSON.stringify(mock.body);
+  res.type(mock.contentType || "application/json").send(text);
+});
+
+// Streaming passthrough to a service (the REST counterpart of call_api)
+// X-Registry-Env: staging sends the request to that environment
+app.all("/proxy/:service{/*path}", requireScope("call:api"), async (req, res) => {
+  const { service } = req.params;
+  const registered = findService(res, service);
+
+  if (!registered) {
+    return res.status(404).json({
+      error: `Service "${service}" not found`,
+      available: Object.keys(visibleServices(res)),
+    });
+  }
+
+  const entry = selectServiceEnv(res, registered, req.get("x-registry-env"));
+  if (!entry) return;
+
+  await proxyRequest(
+    { credentials, audit: auditLog, rateLimiter, onUpstreamCall },
+    entry,
+    passthroughOptions,
+    apiCaller(getApiKey(res)),
+    req,
+    res
+  );
+});
+
+// Run a multi-step workflow of call_api calls (same as the run_workflow MCP tool)
+app.post("/workflows/run", requireScope("call:api"), async (req, res) => {
+  const workflow = workflowSchema.safeParse(req.body);
+  if (!workflow.success) {
+    return res.status(400).json({ error: "Invalid workflow", issues: workflow.error.issues });
+  }
+
+  const result = await runWorkflow(
+    { getServices: () => visibleServices(res), fetchSpec, credentials, audit: auditLog, rateLimiter, onUpstreamCall },
+    workflow.data,
+    apiCaller(getApiKey(res))
+  );
+  res.json(result);
+});
+
+const EVENT_HEARTBEAT_MS = 25_000;
+
+// Registry change events as server-sent events, limited to the key's services
+// (events describe the default environment, so keys that may not use it get none)
+// ?types=spec.*,service.down filters; Last-Event-ID replays recently missed events
+app.get("/events", requireScope("read:specs"), (req, res) => {
+  const apiKey = getApiKey(res);
+  const types = typeof req.query.types === "string"
+    ? req.query.types.split(",").map((t) => t.trim()).filter(Boolean)
+    : undefined;
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+
+  const send = (event: RegistryEvent) => {
+    if (!canReadDefaultEnv(apiKey, event.service) || !matchesEventFilter(event.type, types)) return;
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  const lastId = Number(req.get("Last-Event-ID"));
+  if (Number.isInteger(lastId) && lastId > 0) events.since(lastId).forEach(send);
+  res.write(": connected\n\n");
+
+  const unsubscribe = events.subscribe(send);
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), EVENT_HEARTBEAT_MS);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+// Reload the discovery providers, then force-refresh every cached spec (e.g. from CI after a deploy)
+app.post("/refresh", requireScope("admin:registry"), async (_req, res) => {
+  await discovery.refresh();
+  const results = await Promise.all(
+    Object.entries(visibleServices(res)).map(async ([name, service]) => {
+      const result = await specCache.refresh(specSource(service));
+      return {
+        name,
+        refreshed: !result.error,
+        fetchedAt: result.fetchedAt || null,
+        error: result.error || null,
+      };
+    })
+  );
+  res.json({ services: results });
+});
+
+// Force-refresh one service's cached spec
+app.post("/refresh/:service", requireScope("admin:registry"), async (req, res) => {
+  const { service } = req.params;
+  const entry = findService(res, service);
+
+  if (!entry) {
+    return res.status(404).json({
+      error: `Service "${service}" not found`,
+      available: Object.keys(visibleServices(res)),
+    });
+  }
+
+  const result = await specCache.refresh(specSource(entry));
+  if (result.error) {
+    return res.status(502).json({
+      error: `Failed to refresh spec for "${service}"`,
+      detail: result.error,
+      stale: result.stale || false,
+    });
+  }
+
+  res.json({ name: service, refreshed: true, fetchedAt: result.fetchedAt });
+});
+
+// Discovery providers in precedence order, with their last load
+app.get("/admin/discovery", requireScope("admin:registry"), (_req, res) => {
+  res.json({ conflicts: discovery.conflicts, providers: discovery.providers() });
+});
+
+// Current rate-limit and concurrency usage per API key and per service
+app.get("/admin/usage", requireScope("admin:registry"), (_req, res) => {
+  res.json(rateLimiter.usage());
+});
+
+const AUDIT_CSV_COLUMNS: Array<keyof AuditRecord> = [
+  "timestamp", "apiKey", "sessionId", "service", "env", "method", "path", "status", "latencyMs", "error", "mocked", "requestBody",
+];
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Query the audit log of proxied calls, newest first
+// Filters: ?service=&key=&statusMin=&statusMax=&from=&to=&limit=
+// Export: ?export=jsonl|csv (streams every match, no default limit)
+app.get("/audit", requireScope("admin:registry"), async (req, res) => {
+  const q = req.query as Record<string, string | undefined>;
+  const exportFormat = q.export;
+  if (exportFormat && exportFormat !== "jsonl" && exportFormat !== "csv") {
+    return res.status(400).json({ error: `Unsupported export format "${exportFormat}" (use jsonl or csv)` });
+  }
+
+  const from = q.from ? new Date(q.from) : undefined;
+  const to = q.to ? new Date(q.to) : undefined;
+  if ((from && Number.isNaN(from.getTime())) || (to && Number.isNaN(to.getTime()))) {
+    return res.status(400).json({ error: "from/to must be ISO 8601 timestamps" });
+  }
+
+  const statusMin = q.statusMin ? Number(q.statusMin) : undefined;
+  const statusMax = q.statusMax ? Number(q.statusMax) : undefined;
+  const limit = q.limit ? Number(q.limit) : 100;
+  for (const [name, value] of [["statusMin", statusMin], ["statusMax", statusMax], ["limit", limit]] as const) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      return res.status(400).json({ error: `${name} must be a non-negative integer` });
+    }
+  }
+
+  const apiKey = getApiKey(res);
+  const filter = {
+    service: q.service,
+    apiKey: q.key,
+    statusMin,
+    statusMax,
+    from,
+    to,
+    canAccess: (service: string) => canAccessService(apiKey, service),
+  };
+
+  if (exportFormat) {
+    res.setHeader("Content-Type", exportFormat === "csv" ? "text/csv" : "application/x-ndjson");
+    res.setHeader("Content-Disposition", `attachment; filename="audit.${exportFormat}"`);
+    async function* lines() {
+      if (exportFormat === "csv") yield `${AUDIT_CSV_COLUMNS.join(",")}\n`;
+      for await (const record of auditLog.entries(filter)) {
+        yield exportFormat === "csv"
+          ? `${AUDIT_CSV_COLUMNS.map((c) => csvCell(record[c])).join(",")}\n`
+          : `${JSON.stringify(record)}\n`;
+      }
+    }
+    try {
+      await pipeline(Readable.from(lines()), res);
+    } catch (err) {
+      // Headers are already out; pipeline has cut the response. A client that
+      // went away is not worth logging.
+      if ((err as NodeJS.ErrnoException).code !== "ERR_STREAM_PREMATURE_CLOSE") {
+        console.error("Audit export failed:", err);
+      }
+    }
+    return;
+  }
+
+  const records = await auditLog.query({ ...filter, limit: Math.min(limit || 100, 1000) });
+
+  res.json({ count: records.length, records });
+});
+
 // Register MCP endpoint for LLM access
-registerMcpEndpoint(app, {
-  getServices: () => SERVICES,
+const mcp = registerMcpEndpoint(app, {
+  getServices: () => serviceStore.all(),
+  getHealth: (name) => healthMonitor.get(name),
   fetchSpec,
+  credentials,
+  audit: auditLog,
+  rateLimiter,
+  onUpstreamCall,
+  searchIndex,
+  operationTools: loadOperationToolOptions(),
+  sessions: loadMcpSessionOptions(),
+  onSpecUpdate: (listener) => specCache.onUpdate(listener),
+  onToolCall: (tool, durationMs, failed) => metrics.toolCall(tool, durationMs / 1000, failed),
+});
+
+// Prometheus metrics (text exposition format)
+app.get("/metrics", requireScope("read:metrics"), (_req, res) => {
+  res.type("text/plain; version=0.0.4").send(metrics.render());
+});
+
+// Open MCP sessions with their age, last activity and tool calls
+app.get("/admin/sessions", requireScope("admin:registry"), (_req, res) => {
+  const sessions = mcp.listSessions();
+  res.json({ count: sessions.length, sessions });
 });
+await discovery.start();
 app.listen(Number(PORT), "::", () => {
+  healthMonitor.start();
   console.log(`API Registry running on port ${PORT}`);
   console.log(
-    `Registered services: ${Object.keys(SERVICES).join(", ") || "(none - configure via SERVICES env var)"}`
+    `Registered services: ${Object.keys(serviceStore.all()).join(", ") || "(none - configure via SERVICES env var)"}`
   );
 });
 
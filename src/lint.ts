@@ -0,0 +1,240 @@
+import { listOperations, OpenApiSpec, Operation, ParameterObject, resolveRef, SchemaObject } from "./openapi.js";
+
+// Spec quality rules behind GET /lint. Each rule has a default severity that
+// LINT_RULES can override ("operation-summary=error,parameter-type=off").
+
+export const SEVERITIES = ["error", "warning", "info"] as const;
+export type Severity = (typeof SEVERITIES)[number];
+
+export interface LintFinding {
+  rule: string;
+  severity: Severity;
+  message: string;
+  method?: string;
+  path?: string;
+}
+
+interface LintRule {
+  id: string;
+  severity: Severity;
+  description: string;
+  check(spec: OpenApiSpec, operations: Operation[]): Array<Omit<LintFinding, "rule" | "severity">>;
+}
+
+export type LintOptions = Record<string, Severity | "off">;
+
+export function loadLintOptions(): LintOptions {
+  const options: LintOptions = {};
+  for (const entry of (process.env.LINT_RULES || "").split(",")) {
+    const [rule, level] = entry.trim().split("=").map((part) => part?.trim());
+    if (!rule || !level) continue;
+    if (!RULES.some((r) => r.id === rule)) {
+      console.warn(`Ignoring LINT_RULES entry for unknown rule "${rule}"`);
+    } else if (level === "off" || SEVERITIES.includes(level as Severity)) {
+      options[rule] = level as Severity | "off";
+    } else {
+      console.warn(`Ignoring LINT_RULES entry "${entry}": level must be error, warning, info or off`);
+    }
+  }
+  return options;
+}
+
+// Penalty per finding; a service loses 10 points per penalty point per operation
+const PENALTIES: Record<Severity, number> = { error: 5, warning: 2, info: 0.5 };
+
+// Query parameters that look like credentials
+const CREDENTIAL_PARAM = /^(api[-_]?key|access[-_]?token|token|auth|key|secret|password)$/i;
+
+function at(operation: Operation) {
+  return { method: operation.method.toUpperCase(), path: operation.path };
+}
+
+function hasTypedSchema(spec: OpenApiSpec, schemaOrRef: SchemaObject | undefined): boolean {
+  if (!schemaOrRef) return false;
+  const schema = resolveRef(spec, schemaOrRef);
+  return !!(schema.type || schema.enum || schema.properties || schema.items ||
+    schema.allOf || schema.anyOf || schema.oneOf);
+}
+
+// Every `$ref` string anywhere in the document, with its JSON pointer
+function collectRefs(value: unknown, pointer: string, out: Array<{ ref: string; pointer: string }>) {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => collectRefs(item, `${pointer}/${i}`, out));
+  } else if (value && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === "$ref" && typeof child === "string") out.push({ ref: child, pointer });
+      else collectRefs(child, `${pointer}/${key.replace(/~/g, "~0").replace(/\//g, "~1")}`, out);
+    }
+  }
+}
+
+export const RULES: LintRule[] = [
+  {
+    id: "operation-summary",
+    severity: "warning",
+    description: "Operations need a summary so LLMs can tell what they do",
+    check: (_spec, operations) => operations
+      .filter((op) => !op.details.summary && !op.details.description)
+      .map((op) => ({ ...at(op), message: "Operation has no summary or description" })),
+  },
+  {
+    id: "operation-id",
+    severity: "warning",
+    description: "Operations need an operationId (used for tool names and doc links)",
+    check: (_spec, operations) => operations
+      .filter((op) => !op.details.operationId)
+      .map((op) => ({ ...at(op), message: "Operation has no operationId" })),
+  },
+  {
+    id: "operation-id-unique",
+    severity: "error",
+    description: "operationIds must be unique within a spec",
+    check: (_spec, operations) => {
+      const seen = new Map<string, Operation>();
+      const findings = [];
+      for (const op of operations) {
+        const id = op.details.operationId;
+        if (!id) continue;
+        const first = seen.get(id);
+        if (first) {
+          findings.push({
+            ...at(op),
+            message: `operationId "${id}" is also used by ${first.method.toUpperCase()} ${first.path}`,
+          });
+        } else {
+          seen.set(id, op);
+        }
+      }
+      return findings;
+    },
+  },
+  {
+    id: "request-body-schema",
+    severity: "warning",
+    description: "POST, PUT and PATCH operations should document their request body schema",
+    check: (spec, operations) => operations
+      .filter((op) => ["post", "put", "patch"].includes(op.method))
+      .flatMap((op) => {
+        const body = resolveRef(spec, op.details.requestBody);
+        if (!body) return [{ ...at(op), message: "No request body is documented" }];
+        const schemas = Object.values(body.content || {}).map((media) => media.schema);
+        return schemas.some((schema) => schema)
+          ? []
+          : [{ ...at(op), message: "Request body has no schema" }];
+      }),
+  },
+  {
+    id: "success-response-schema",
+    severity: "warning",
+    description: "Operations should document a 2xx response with a schema (204 excepted)",
+    check: (spec, operations) => operations.flatMap((op) => {
+      const success = Object.entries(op.details.responses || {}).filter(([status]) => /^2/.test(status));
+      if (success.length === 0) return [{ ...at(op), message: "No 2xx response is documented" }];
+      const documented = success.some(([status, responseOrRef]) => {
+        if (status === "204") return true;
+        const response = resolveRef(spec, responseOrRef);
+        return Object.values(response.content || {}).some((media) => media.schema);
+      });
+      return documented ? [] : [{ ...at(op), message: "2xx response has no schema" }];
+    }),
+  },
+  {
+    id: "parameter-type",
+    severity: "warning",
+    description: "Parameters need a typed schema so calls can be validated",
+    check: (spec, operations) => operations.flatMap((op) =>
+      (op.details.parameters || [])
+        .map((p) => resolveRef<ParameterObject>(spec, p))
+        .filter((param) => !hasTypedSchema(spec, param.schema))
+        .map((param) => ({ ...at(op), message: `Parameter "${param.name}" (${param.in}) has no type` }))
+    ),
+  },
+  {
+    id: "parameter-description",
+    severity: "info",
+    description: "Parameters should say what they are for",
+    check: (spec, operations) => operations.flatMap((op) =>
+      (op.details.parameters || [])
+        .map((p) => resolveRef<ParameterObject>(spec, p))
+        .filter((param) => !param.description)
+        .map((param) => ({ ...at(op), message: `Parameter "${param.name}" (${param.in}) has no description` }))
+    ),
+  },
+  {
+    id: "path-parameters",
+    severity: "error",
+    description: "Every {param} in a path must be declared as a path parameter",
+    check: (spec, operations) => operations.flatMap((op) => {
+      const declared = new Set(
+        (op.details.parameters || [])
+          .map((p) => resolveRef<ParameterObject>(spec, p))
+          .filter((p) => p.in === "path")
+          .map((p) => p.name)
+      );
+      return [...op.path.matchAll(/\{([^}]+)\}/g)]
+        .filter(([, name]) => !declared.has(name))
+        .map(([, name]) => ({ ...at(op), message: `Path parameter "${name}" is not declared` }));
+    }),
+  },
+  {
+    id: "ref-resolvable",
+    severity: "error",
+    description: "Every local $ref must point at an existing definition",
+    check: (spec) => {
+      const refs: Array<{ ref: string; pointer: string }> = [];
+      collectRefs(spec, "#", refs);
+      return refs
+        .filter(({ ref }) => ref.startsWith("#/") && resolveRef(spec, { $ref: ref }).$ref === ref)
+        .map(({ ref, pointer }) => ({ message: `Unresolved $ref "${ref}" at ${pointer}` }));
+    },
+  },
+  {
+    id: "auth-header-only",
+    severity: "warning",
+    description: "Credentials must travel in headers: the registry injects auth as headers and logs query strings",
+    check: (spec, operations) => {
+      const schemes = (spec.components?.securitySchemes || {}) as Record<string, { type?: string; in?: string }>;
+      const findings = Object.entries(schemes)
+        .filter(([, scheme]) => scheme.type === "apiKey" && scheme.in !== "header")
+        .map(([name, scheme]) => ({ message: `Security scheme "${name}" sends its key in the ${scheme.in}` }));
+      for (const op of operations) {
+        for (const param of (op.details.parameters || []).map((p) => resolveRef<ParameterObject>(spec, p))) {
+          if (param.in === "query" && CREDENTIAL_PARAM.test(param.name)) {
+            findings.push({ ...at(op), message: `Query parameter "${param.name}" looks like a credential` });
+          }
+        }
+      }
+      return findings;
+    },
+  },
+];
+
+export interface LintReport {
+  score: number;
+  operations: number;
+  counts: Record<Severity, number>;
+  findings: Record<Severity, LintFinding[]>;
+}
+
+export function lintSpec(spec: OpenApiSpec, options: LintOptions): LintReport {
+  const operations = listOperations(spec);
+  const findings: Record<Severity, LintFinding[]> = { error: [], warning: [], info: [] };
+
+  for (const rule of RULES) {
+    const severity = options[rule.id] ?? rule.severity;
+    if (severity === "off") continue;
+    for (const finding of rule.check(spec, operations)) {
+      findings[severity].push({ rule: rule.id, severity, ...finding });
+    }
+  }
+
+  const penalty = SEVERITIES.reduce((sum, severity) => sum + findings[severity].length * PENALTIES[severity], 0);
+  const score = Math.max(0, Math.round(100 - (10 * penalty) / Math.max(operations.length, 1)));
+
+  return {
+    score,
+    operations: operations.length,
+    counts: { error: findings.error.length, warning: findings.warning.length, info: findings.info.length },
+    findings,
+  };
+}
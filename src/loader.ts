@@ -0,0 +1,87 @@
+import { readFile } from "fs/promises";
+import { extname } from "path";
+import { parse as parseYaml } from "yaml";
+import { convertSwagger2, isSwagger2 } from "./swagger.js";
+
+// Loads one spec location (an http(s) URL or a local file), parses JSON or
+// YAML and normalizes Swagger 2.0 to OpenAPI 3
+
+const ACCEPT = "application/json, application/yaml;q=0.9, text/yaml;q=0.9, */*;q=0.5";
+
+// The location answered but did not serve a usable spec (HTTP error status,
+// unparseable or non-OpenAPI content): the next fallback location may work
+export class SpecLocationError extends Error {}
+
+export type LoadResult =
+  | { notModified: true }
+  | { notModified?: false; spec: unknown; etag?: string };
+
+export function isRemoteLocation(location: string): boolean {
+  return /^https?:\/\//.test(location);
+}
+
+// `hint` is a content-type or file extension; unknown types are tried as JSON, then YAML
+function parseDocument(text: string, hint: string): unknown {
+  if (/json/i.test(hint)) return JSON.parse(text);
+  if (/ya?ml/i.test(hint)) return parseYaml(text);
+  try {
+    return JSON.parse(text);
+  } catch {
+    return parseYaml(text);
+  }
+}
+
+export function normalizeSpec(document: unknown): unknown {
+  if (!document || typeof document !== "object" || Array.isArray(document)) {
+    throw new SpecLocationError("Not an OpenAPI document");
+  }
+  if (isSwagger2(document)) return convertSwagger2(document as Record<string, unknown>);
+
+  const { openapi, swagger, paths } = document as Record<string, unknown>;
+  if (swagger !== undefined) throw new SpecLocationError(`Unsupported Swagger version "${swagger}"`);
+  if (openapi === undefined && paths === undefined) throw new SpecLocationError("Not an OpenAPI document");
+  return document;
+}
+
+function parseSpec(text: string, hint: string): unknown {
+  let document: unknown;
+  try {
+    document = parseDocument(text, hint);
+  } catch (err) {
+    throw new SpecLocationError(`Unparseable spec: ${err instanceof Error ? err.message : err}`);
+  }
+  return normalizeSpec(document);
+}
+
+export async function loadSpecLocation(
+  location: string,
+  options: { etag?: string; timeoutMs: number }
+): Promise<LoadResult> {
+  if (!isRemoteLocation(location)) {
+    const text = await readFile(location, "utf-8");
+    return { spec: parseSpec(text, extname(location)) };
+  }
+
+  const headers: Record<string, string> = { Accept: ACCEPT };
+  if (options.etag) headers["If-None-Match"] = options.etag;
+
+  const response = await fetch(location, {
+    headers,
+    signal: AbortSignal.timeout(options.timeoutMs),
+  });
+
+  if (response.status === 304 && options.etag) return { notModified: true };
+  if (!response.ok) {
+    await response.arrayBuffer();
+    throw new SpecLocationError(`HTTP ${response.status}`);
+  }
+
+  const text = await response.text();
+  // Fall back to the URL's extension when the content-type says nothing useful
+  const contentType = response.headers.get("content-type") || "";
+  const hint = /json|ya?ml/i.test(contentType) ? contentType : extname(new URL(location).pathname);
+  return {
+    spec: parseSpec(text, hint),
+    etag: response.headers.get("etag") || undefined,
+  };
+}
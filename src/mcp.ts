@@ -1,38 +1,200 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { CallToolResult, isInitializeRequest, isJSONRPCRequest } from "@modelcontextprotocol/sdk/types.js";
 import { Express, Request, Response } from "express";
 import { z } from "zod";
+import { specSource, specUrl } from "./services.js";
+import { ServiceHealth } from "./health.js";
+import { allowedEnvironments, environmentKey, selectEnvironment, servicesInEnv } from "./environments.js";
+import { apiCallShape, apiCaller, callApi, checkKeyLimit, ProxyRegistry } from "./proxy.js";
+import { RateLimiter, RateLimitError } from "./ratelimit.js";
+import { ApiKeyIdentity, canAccessService, getApiKey, hasScope, Scope } from "./auth.js";
+import { DETAIL_LEVELS, OpenApiSpec, summarizeEndpoints } from "./openapi.js";
+import { DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT, SearchIndex, searchOperations } from "./search.js";
+import { registerResources } from "./resources.js";
+import { registerPrompts } from "./prompts.js";
+import { runWorkflow, workflowShape } from "./workflow.js";
+import {
+  buildOperationTools,
+  OperationTool,
+  OperationToolArgs,
+  OperationToolOptions,
+  toApiCallRequest,
+} from "./tools.js";
+
+// Spec updates are batched before per-operation tools are re-synced
+const TOOL_SYNC_DELAY_MS = 1_000;
+
+// Idle sessions are looked for at most this often
+const MAX_SWEEP_INTERVAL_MS = 60_000;
+
+export interface McpSessionOptions {
+  // Sessions without a request (or open stream) for this long are closed
+  idleTimeoutMs: number;
+  maxSessions: number;
+  maxSessionsPerKey: number;
+}
+
+export function loadMcpSessionOptions(): McpSessionOptions {
+  return {
+    idleTimeoutMs: Number(process.env.MCP_SESSION_IDLE_MS) || 30 * 60_000,
+    maxSessions: Number(process.env.MCP_MAX_SESSIONS) || 1_000,
+    maxSessionsPerKey: Number(process.env.MCP_MAX_SESSIONS_PER_KEY) || 50,
+  };
+}
+
+interface ServiceRegistry extends ProxyRegistry {
+  getHealth(name: string): ServiceHealth;
+  searchIndex: SearchIndex;
+  operationTools: OperationToolOptions;
+  sessions: McpSessionOptions;
+  // Called with the spec cache key whenever a cached spec changes; returns an unsubscribe function
+  onSpecUpdate(listener: (key: string) => void): () => void;
+  // Called when a tool call is answered (failed = the handler threw or returned an isError result)
+  onToolCall(tool: string, durationMs: number, failed: boolean): void;
+}
+
+interface McpSession {
+  transport: StreamableHTTPServerTransport;
+  // API key the session was initialized with; tools run with its scopes
+  apiKey: ApiKeyIdentity;
+  createdAt: number;
+  lastActivityAt: number;
+  // Requests and SSE streams still open; a busy session is never idle
+  openRequests: number;
+  toolCalls: Record<string, number>;
+}
+
+export interface McpSessionInfo {
+  id: string;
+  apiKey: string;
+  createdAt: string;
+  lastActivityAt: string;
+  ageSeconds: number;
+  idleSeconds: number;
+  openRequests: number;
+  toolCalls: number;
+  toolCallsByName: Record<string, number>;
+}
 
-interface ServiceRegistry {
-  getServices(): Record<string, string>;
-  fetchSpec(url: string): Promise<{ spec: unknown; error?: string }>;
+function jsonRpcError(res: Response, status: number, code: number, message: string) {
+  return res.status(status).json({ jsonrpc: "2.0", error: { code, message }, id: null });
 }
 
+// Unknown and expired session IDs get a 404, which tells clients to initialize a new session
+function sessionNotFound(res: Response) {
+  return jsonRpcError(res, 404, -32001, "Session not found");
+}
+
+// Every other JSON-RPC request (initialize, resources/*, prompts/*, tools/list...)
+// takes one token per request; notifications are free
+function chargeRequests(rateLimiter: RateLimiter, apiKey: ApiKeyIdentity, body: unknown) {
+  const messages = Array.isArray(body) ? body : [body];
+  for (const message of messages) {
+    if (isJSONRPCRequest(message) && message.method !== "tools/call") rateLimiter.checkKey(apiKey.name, apiKey.rateLimit);
+  }
+}
+
+// Tools that don't call a service take one token from the key's bucket per
+// call; call_api, run_workflow and operation tools are charged per upstream call
+function rateLimited(rateLimiter: RateLimiter, apiKey: ApiKeyIdentity) {
+  const limited = checkKeyLimit(rateLimiter, apiKey.name, apiKey.rateLimit);
+  if (!limited) return undefined;
+  return {
+    content: [{ type: "text" as const, text: JSON.stringify(limited) }],
+  };
+}
+
+function missingScope(scope: Scope) {
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({ error: `API key is missing the "${scope}" scope` }),
+    }],
+  };
+}
+
+// Counts and times every call of a tool, wrapped around its handler. Only
+// registered tools reach a handler, so made-up tool names never become labels.
+function toolTimer(toolCalls: Record<string, number>, onToolCall: ServiceRegistry["onToolCall"]) {
+  return function timed<A extends unknown[]>(name: string, handler: (...args: A) => Promise<CallToolResult>) {
+    return async (...args: A): Promise<CallToolResult> => {
+      toolCalls[name] = (toolCalls[name] || 0) + 1;
+      const started = Date.now();
+      let failed = true;
+      try {
+        const result = await handler(...args);
+        failed = result.isError === true;
+        return result;
+      } finally {
+        onToolCall(name, Date.now() - started, failed);
+      }
+    };
+  };
+}
+
+type ToolTimer = ReturnType<typeof toolTimer>;
+
 export function registerMcpEndpoint(app: Express, registry: ServiceRegistry) {
-  const sessions = new Map<string, StreamableHTTPServerTransport>();
+  const sessions = new Map<string, McpSession>();
 
-  function createMcpServer(): McpServer {
+  async function createMcpServer(
+    apiKey: ApiKeyIdentity,
+    sessionId: string,
+    toolCalls: Record<string, number>
+  ): Promise<McpServer> {
     const server = new McpServer({
       name: "API Registry",
       version: "1.0.0",
     });
+    const timed = toolTimer(toolCalls, registry.onToolCall);
+
+    // The registry as seen by this session's API key
+    const scoped: ServiceRegistry = {
+      ...registry,
+      getServices: () => Object.fromEntries(
+        Object.entries(registry.getServices()).filter(([name]) => canAccessService(apiKey, name))
+      ),
+    };
+    // ...with each service in the key's default environment, for everything
+    // that reads specs or base URLs (calls select their environment themselves)
+    const inEnv: ServiceRegistry = {
+      ...scoped,
+      getServices: () => servicesInEnv(scoped.getServices(), apiKey),
+    };
 
     // Tool: list all registered services
     server.tool(
       "list_services",
-      "List all registered API services with their base URLs",
+      "List all registered API services with their base URLs and current health status",
       {},
-      async () => {
-        const services = registry.getServices();
-        const list = Object.entries(services).map(([name, url]) => ({
-          name,
-          baseUrl: url,
-          openapiUrl: `${url}/openapi.json`,
-        }));
+      timed("list_services", async () => {
+        if (!hasScope(apiKey, "read:specs")) return missingScope("read:specs");
+        const limited = rateLimited(registry.rateLimiter, apiKey);
+        if (limited) return limited;
+        const services = inEnv.getServices();
+        const list = Object.values(services).map((entry) => {
+          // Health is only monitored for the default environment
+          const health = environmentKey(entry) === entry.name ? registry.getHealth(entry.name) : undefined;
+          return {
+            name: entry.name,
+            env: entry.env,
+            baseUrl: entry.baseUrl,
+            openapiUrl: specUrl(entry),
+            environments: entry.environments ? allowedEnvironments(entry, apiKey) : undefined,
+            description: entry.description,
+            owner: entry.owner,
+            tags: entry.tags,
+            authInjected: registry.credentials.has(environmentKey(entry), entry.baseUrl) || undefined,
+            status: health?.status,
+            lastSuccessAt: health?.lastSuccessAt,
+            lastError: health?.lastError,
+          };
+        });
         return {
           content: [{ type: "text", text: JSON.stringify(list, null, 2) }],
         };
-      }
+      })
     );
 
     // Tool: get OpenAPI spec for a specific service
@@ -41,11 +203,15 @@ export function registerMcpEndpoint(app: Express, registry: ServiceRegistry) {
       "Get the full OpenAPI specification for a specific service",
       {
         service: z.string().describe("Service name (e.g. 'api-service', 'campaign-service')"),
+        env: z.string().optional().describe("Environment (e.g. 'staging'). Defaults to the API key's default environment, then the service's"),
       },
-      async ({ service }) => {
-        const services = registry.getServices();
-        const url = services[service];
-        if (!url) {
+      timed("get_service_spec", async ({ service, env }) => {
+        if (!hasScope(apiKey, "read:specs")) return missingScope("read:specs");
+        const limited = rateLimited(registry.rateLimiter, apiKey);
+        if (limited) return limited;
+        const services = scoped.getServices();
+        const entry = services[service];
+        if (!entry) {
           return {
             content: [{
               type: "text",
@@ -56,8 +222,17 @@ export function registerMcpEndpoint(app: Express, registry: ServiceRegistry) {
             }],
           };
         }
-        const result = await registry.fetchSpec(url);
-        if (result.error) {
+        const selection = selectEnvironment(entry, apiKey, env);
+        if ("error" in selection) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ error: selection.error, environments: selection.environments }),
+            }],
+          };
+        }
+        const result = await registry.fetchSpec(selection.entry);
+        if (!result.spec) {
           return {
             content: [{
               type: "text",
@@ -68,83 +243,42 @@ export function registerMcpEndpoint(app: Express, registry: ServiceRegistry) {
         return {
           content: [{ type: "text", text: JSON.stringify(result.spec, null, 2) }],
         };
-      }
+      })
     );
 
     // Tool: get a compact summary of all services and endpoints (LLM-optimized)
     server.tool(
       "get_all_endpoints",
-      "Get a compact LLM-friendly summary of all services and their endpoints. Use this to discover what APIs are available before calling them.",
-      {},
-      async () => {
-        const services = registry.getServices();
+      "Get a compact LLM-friendly summary of all services and their endpoints, with request and response schemas. Use this to discover what APIs are available before calling them.",
+      {
+        detail: z.enum(DETAIL_LEVELS).optional().describe(
+          "'brief' (default): schemas as compact type strings, optional fields marked '?'. 'full': adds descriptions and structured field lists"
+        ),
+      },
+      timed("get_all_endpoints", async ({ detail }) => {
+        if (!hasScope(apiKey, "read:specs")) return missingScope("read:specs");
+        const limited = rateLimited(registry.rateLimiter, apiKey);
+        if (limited) return limited;
+        const services = inEnv.getServices();
         const summaries = await Promise.all(
-          Object.entries(services).map(async ([name, url]) => {
-            const result = await registry.fetchSpec(url);
-            if (result.error || !result.spec) {
-              return { service: name, baseUrl: url, error: result.error, endpoints: [] };
+          Object.entries(services).map(async ([name, entry]) => {
+            const result = await registry.fetchSpec(entry);
+            const status = environmentKey(entry) === name ? registry.getHealth(name).status : undefined;
+            if (!result.spec) {
+              return { service: name, env: entry.env, baseUrl: entry.baseUrl, status, error: result.error, endpoints: [] };
             }
 
-            const spec = result.spec as {
-              info?: { title?: string; description?: string };
-              paths?: Record<string, Record<string, {
-                summary?: string;
-                description?: string;
-                parameters?: Array<{
-                  name: string;
-                  in: string;
-                  required?: boolean;
-                  schema?: { type?: string };
-                }>;
-                requestBody?: {
-                  content?: {
-                    "application/json"?: {
-                      schema?: { properties?: Record<string, unknown> };
-                    };
-                  };
-                };
-              }>>;
-            };
-
-            const endpoints = Object.entries(spec.paths || {}).flatMap(
-              ([path, methods]) =>
-                Object.entries(methods)
-                  .filter(([method]) =>
-                    ["get", "post", "put", "patch", "delete"].includes(method)
-                  )
-                  .map(([method, details]) => {
-                    const params = (details.parameters || [])
-                      .filter((p) => p.in !== "header")
-                      .map((p) => ({
-                        name: p.name,
-                        in: p.in,
-                        required: p.required || false,
-                        type: p.schema?.type,
-                      }));
-
-                    const bodyProps = details.requestBody?.content?.[
-                      "application/json"
-                    ]?.schema?.properties
-                      ? Object.keys(
-                          details.requestBody.content["application/json"].schema.properties
-                        )
-                      : [];
-
-                    return {
-                      method: method.toUpperCase(),
-                      path,
-                      summary: details.summary || details.description || "",
-                      params: params.length > 0 ? params : undefined,
-                      bodyFields: bodyProps.length > 0 ? bodyProps : undefined,
-                    };
-                  })
-            );
+            const spec = result.spec as OpenApiSpec;
+            const endpoints = summarizeEndpoints(spec, detail);
 
             return {
               service: name,
-              baseUrl: url,
+              env: entry.env,
+              baseUrl: entry.baseUrl,
               title: spec.info?.title,
               description: spec.info?.description,
+              status,
+              stale: result.stale || undefined,
               endpoints,
             };
           })
@@ -159,71 +293,31 @@ export function registerMcpEndpoint(app: Express, registry: ServiceRegistry) {
             }, null, 2),
           }],
         };
-      }
+      })
     );
 
     // Tool: search for endpoints matching a keyword
     server.tool(
       "search_endpoints",
-      "Search for API endpoints across all services matching a keyword (searches path, summary, and body fields)",
+      "Ranked full-text search for API endpoints across all services. Matches operationIds, summaries, descriptions, tags, parameters and request/response fields, tolerating small typos. Describe what you want to do (e.g. 'send email to lead').",
       {
-        query: z.string().describe("Keyword to search for (e.g. 'campaign', 'email', 'brand')"),
+        query: z.string().describe("Words describing the endpoint (e.g. 'create campaign', 'send email to lead')"),
+        limit: z.number().int().min(1).max(MAX_SEARCH_LIMIT).optional().describe(`Maximum results (default ${DEFAULT_SEARCH_LIMIT})`),
       },
-      async ({ query }) => {
-        const services = registry.getServices();
-        const q = query.toLowerCase();
-        const matches: Array<{
-          service: string;
-          baseUrl: string;
-          method: string;
-          path: string;
-          summary: string;
-          bodyFields?: string[];
-        }> = [];
-
-        await Promise.all(
-          Object.entries(services).map(async ([name, url]) => {
-            const result = await registry.fetchSpec(url);
-            if (result.error || !result.spec) return;
-
-            const spec = result.spec as {
-              paths?: Record<string, Record<string, {
-                summary?: string;
-                description?: string;
-                requestBody?: {
-                  content?: {
-                    "application/json"?: {
-                      schema?: { properties?: Record<string, unknown> };
-                    };
-                  };
-                };
-              }>>;
-            };
-
-            for (const [path, methods] of Object.entries(spec.paths || {})) {
-              for (const [method, details] of Object.entries(methods)) {
-                if (!["get", "post", "put", "patch", "delete"].includes(method)) continue;
-
-                const summary = details.summary || details.description || "";
-                const bodyProps = details.requestBody?.content?.["application/json"]?.schema?.properties
-                  ? Object.keys(details.requestBody.content["application/json"].schema.properties)
-                  : [];
-
-                const searchText = `${path} ${summary} ${bodyProps.join(" ")}`.toLowerCase();
-                if (searchText.includes(q)) {
-                  matches.push({
-                    service: name,
-                    baseUrl: url,
-                    method: method.toUpperCase(),
-                    path,
-                    summary,
-                    bodyFields: bodyProps.length > 0 ? bodyProps : undefined,
-                  });
-                }
-              }
-            }
-          })
+      timed("search_endpoints", async ({ query, limit }) => {
+        if (!hasScope(apiKey, "read:specs")) return missingScope("read:specs");
+        const limited = rateLimited(registry.rateLimiter, apiKey);
+        if (limited) return limited;
+        const { results, unavailable } = await searchOperations(
+          inEnv,
+          inEnv.getServices(),
+          query,
+          limit ?? DEFAULT_SEARCH_LIMIT
         );
+        const matches = results.map((result) => ({
+          ...result,
+          serviceDown: registry.getHealth(result.service).status === "down" || undefined,
+        }));
 
         return {
           content: [{
@@ -232,151 +326,296 @@ export function registerMcpEndpoint(app: Express, registry: ServiceRegistry) {
               query,
               matchCount: matches.length,
               matches,
+              unavailable: unavailable.length > 0 ? unavailable : undefined,
             }, null, 2),
           }],
         };
-      }
+      })
     );
 
     // Tool: call an API endpoint directly
     server.tool(
       "call_api",
-      "Call an API endpoint on a registered service. Use get_all_endpoints first to discover available endpoints.",
-      {
-        service: z.string().describe("Service name (e.g. 'api-service')"),
-        method: z.enum(["GET", "POST", "PUT", "PATCH", "DELETE"]).describe("HTTP method"),
-        path: z.string().describe("Endpoint path (e.g. '/v1/campaigns')"),
-        body: z.record(z.string(), z.unknown()).optional().describe("Request body (for POST/PUT/PATCH)"),
-        headers: z.record(z.string(), z.string()).optional().describe("Additional headers to send"),
-      },
-      async ({ service, method, path, body, headers: extraHeaders }) => {
-        const services = registry.getServices();
-        const baseUrl = services[service];
-        if (!baseUrl) {
-          return {
-            content: [{
-              type: "text",
-              text: JSON.stringify({
-                error: `Service "${service}" not found`,
-                available: Object.keys(services),
-              }),
-            }],
-          };
-        }
+      "Call an API endpoint on a registered service. Use get_all_endpoints first to discover available endpoints. The call is validated against the service's OpenAPI spec before it is sent.",
+      apiCallShape,
+      timed("call_api", async (request) => {
+        if (!hasScope(apiKey, "call:api")) return missingScope("call:api");
+        const result = await callApi(scoped, request, apiCaller(apiKey, sessionId));
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        };
+      })
+    );
 
-        try {
-          const url = `${baseUrl}${path}`;
-          const fetchHeaders: Record<string, string> = {
-            "Content-Type": "application/json",
-            ...extraHeaders,
-          };
+    // Tool: chain several calls in one round trip
+    server.tool(
+      "run_workflow",
+      "Run several call_api calls in order in one go. Later steps can use earlier responses via {{ $.steps.<id>.data.<field> }} references in path, body and headers. " +
+      "Steps can be conditional (`if`), retried (`retries`) and the run stops at the first failure unless told otherwise. Returns a per-step trace.",
+      workflowShape,
+      timed("run_workflow", async (workflow) => {
+        if (!hasScope(apiKey, "call:api")) return missingScope("call:api");
+        const result = await runWorkflow(scoped, workflow, apiCaller(apiKey, sessionId));
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        };
+      })
+    );
 
-          const response = await fetch(url, {
-            method,
-            headers: fetchHeaders,
-            body: body && ["POST", "PUT", "PATCH"].includes(method) ? JSON.stringify(body) : undefined,
-            signal: AbortSignal.timeout(30_000),
-          });
-
-          const responseBody = await response.text();
-          let parsed: unknown;
-          try {
-            parsed = JSON.parse(responseBody);
-          } catch {
-            parsed = responseBody;
-          }
+    const resources = registerResources(server, inEnv, apiKey);
+    registerPrompts(server, inEnv, apiKey);
 
-          return {
-            content: [{
-              type: "text",
-              text: JSON.stringify({
-                status: response.status,
-                ok: response.ok,
-                data: parsed,
-              }, null, 2),
-            }],
-          };
-        } catch (err: unknown) {
-          return {
-            content: [{
-              type: "text",
-              text: JSON.stringify({
-                error: err instanceof Error ? err.message : "Request failed",
-              }),
-            }],
-          };
-        }
+    const operationTools = registry.operationTools.enabled && hasScope(apiKey, "call:api")
+      ? await registerOperationTools(server, scoped, inEnv, apiKey, sessionId, timed)
+      : undefined;
+
+    const unsubscribe = registry.onSpecUpdate((key) => {
+      for (const service of Object.values(inEnv.getServices())) {
+        if (specSource(service).key !== key) continue;
+        resources.notifySpecChanged(service.name).catch((err) =>
+          console.error("Failed to send resource update:", err)
+        );
       }
-    );
+      operationTools?.scheduleSync();
+    });
+    server.server.onclose = () => {
+      unsubscribe();
+      operationTools?.stop();
+    };
 
     return server;
   }
 
+  // One tool per operation of every service the key can see, kept in sync
+  // with the cached specs (the SDK sends tools/list_changed on each change).
+  // Tools are built from the specs of the key's default environment.
+  async function registerOperationTools(
+    server: McpServer,
+    scoped: ServiceRegistry,
+    inEnv: ServiceRegistry,
+    apiKey: ApiKeyIdentity,
+    sessionId: string,
+    timed: ToolTimer
+  ) {
+    const registered = new Map<string, { tool: OperationTool; handle: RegisteredTool; signature: string }>();
+
+    function register(tool: OperationTool): RegisteredTool {
+      let inputSchema;
+      try {
+        inputSchema = z.fromJSONSchema(tool.inputSchema);
+      } catch (err) {
+        console.warn(`Tool "${tool.name}" has an unsupported input schema, accepting any arguments:`, err);
+        inputSchema = z.looseObject({});
+      }
+
+      return server.registerTool(tool.name, { description: tool.description, inputSchema }, timed(tool.name, async (args) => {
+        const request = toApiCallRequest(tool, args as OperationToolArgs);
+        const result = await callApi(scoped, request, apiCaller(apiKey, sessionId));
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        };
+      }));
+    }
+
+    async function sync() {
+      const next = new Map<string, OperationTool>();
+      await Promise.all(
+        Object.values(inEnv.getServices()).map(async (entry) => {
+          const result = await inEnv.fetchSpec(entry);
+          const tools = result.spec
+            ? buildOperationTools(entry, result.spec as OpenApiSpec, registry.operationTools)
+            // Keep the previous tools while a spec is temporarily unavailable
+            : [...registered.values()].filter(({ tool }) => tool.service === entry.name).map(({ tool }) => tool);
+          for (const tool of tools) {
+            if (next.has(tool.name)) {
+              console.warn(`Skipping duplicate tool name "${tool.name}" (service "${entry.name}")`);
+              continue;
+            }
+            next.set(tool.name, tool);
+          }
+        })
+      );
+
+      for (const [name, current] of registered) {
+        const tool = next.get(name);
+        if (tool && JSON.stringify(tool) === current.signature) continue;
+        current.handle.remove();
+        registered.delete(name);
+      }
+      for (const [name, tool] of next) {
+        if (registered.has(name)) continue;
+        registered.set(name, { tool, handle: register(tool), signature: JSON.stringify(tool) });
+      }
+    }
+
+    // Syncs run one at a time; spec updates in quick succession share one
+    let queue = Promise.resolve();
+    let timer: NodeJS.Timeout | undefined;
+
+    function scheduleSync() {
+      if (timer) return;
+      timer = setTimeout(() => {
+        timer = undefined;
+        queue = queue.then(sync).catch((err) => console.error("Failed to sync operation tools:", err));
+      }, TOOL_SYNC_DELAY_MS);
+      timer.unref();
+    }
+
+    await sync();
+    return { scheduleSync, stop: () => clearTimeout(timer) };
+  }
+
+  // Counts activity; the session stays busy until the response is finished
+  function track(session: McpSession, res: Response) {
+    session.openRequests++;
+    session.lastActivityAt = Date.now();
+    res.on("close", () => {
+      session.openRequests--;
+      session.lastActivityAt = Date.now();
+    });
+  }
+
+  async function closeSession(sessionId: string, reason: string) {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    try {
+      await session.transport.close();
+    } catch (err) {
+      console.error(`Failed to close MCP session ${sessionId}:`, err);
+    }
+    if (reason !== "deleted") console.log(`Closed MCP session ${sessionId} (${session.apiKey.name}): ${reason}`);
+  }
+
+  function evictIdleSessions() {
+    const cutoff = Date.now() - registry.sessions.idleTimeoutMs;
+    for (const [id, session] of sessions) {
+      if (session.openRequests === 0 && session.lastActivityAt < cutoff) void closeSession(id, "idle timeout");
+    }
+  }
+
+  const sweeper = setInterval(
+    evictIdleSessions,
+    Math.min(registry.sessions.idleTimeoutMs / 2, MAX_SWEEP_INTERVAL_MS)
+  );
+  sweeper.unref();
+
   // MCP endpoint - POST for JSON-RPC requests
   app.post("/mcp", async (req: Request, res: Response) => {
     try {
-      let sessionId = req.headers["mcp-session-id"] as string | undefined;
-      let transport = sessionId ? sessions.get(sessionId) : undefined;
-
-      if (!transport) {
-        sessionId = crypto.randomUUID();
-        const mcpServer = createMcpServer();
-
-        transport = new StreamableHTTPServerTransport({
-          sessionIdGenerator: () => sessionId!,
-          onsessioninitialized: (id) => {
-            sessions.set(id, transport!);
-          },
-        });
+      const apiKey = getApiKey(res);
+      const sessionId = req.headers["mcp-session-id"] as string | undefined;
+
+      try {
+        chargeRequests(registry.rateLimiter, apiKey, req.body);
+      } catch (err) {
+        if (!(err instanceof RateLimitError)) throw err;
+        res.setHeader("Retry-After", String(err.retryAfterSeconds));
+        return jsonRpcError(res, 429, -32000, `${err.message}, retry in ${err.retryAfterSeconds}s`);
+      }
+
+      if (sessionId) {
+        const session = sessions.get(sessionId);
+        // Another key's session is reported as missing, as in requestSession
+        if (!session || session.apiKey.name !== apiKey.name) return sessionNotFound(res);
+        track(session, res);
+        return await session.transport.handleRequest(req, res, req.body);
+      }
+
+      // Without a session ID, only an initialize request is accepted
+      const initializing = Array.isArray(req.body) ? req.body.some(isInitializeRequest) : isInitializeRequest(req.body);
+      if (!initializing) {
+        return jsonRpcError(res, 400, -32000, "Missing mcp-session-id header (send an initialize request first)");
+      }
 
-        sessions.set(sessionId, transport);
-        await mcpServer.connect(transport);
+      evictIdleSessions();
+      if (sessions.size >= registry.sessions.maxSessions) {
+        return jsonRpcError(res, 503, -32000, "Too many open MCP sessions, try again later");
+      }
+      const ownSessions = [...sessions.values()].filter((s) => s.apiKey.name === apiKey.name).length;
+      if (ownSessions >= registry.sessions.maxSessionsPerKey) {
+        return jsonRpcError(
+          res,
+          429,
+          -32000,
+          `API key has ${ownSessions} open MCP sessions (limit ${registry.sessions.maxSessionsPerKey}); close unused ones with DELETE /mcp`
+        );
       }
 
-      res.setHeader("mcp-session-id", sessionId!);
+      const newId = crypto.randomUUID();
+      const toolCalls: Record<string, number> = {};
+      const mcpServer = await createMcpServer(apiKey, newId, toolCalls);
+      const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: () => newId });
+      const now = Date.now();
+      const session: McpSession = {
+        transport,
+        apiKey,
+        createdAt: now,
+        lastActivityAt: now,
+        openRequests: 0,
+        toolCalls,
+      };
+      sessions.set(newId, session);
+      await mcpServer.connect(transport);
+
+      track(session, res);
       await transport.handleRequest(req, res, req.body);
     } catch (error) {
       console.error("MCP request error:", error);
-      res.status(500).json({
-        jsonrpc: "2.0",
-        error: {
-          code: -32603,
-          message: error instanceof Error ? error.message : "Internal error",
-        },
-        id: null,
-      });
+      if (res.headersSent) return;
+      jsonRpcError(res, 500, -32603, error instanceof Error ? error.message : "Internal error");
     }
   });
 
-  // MCP endpoint - GET for SSE
-  app.get("/mcp", async (req: Request, res: Response) => {
+  // Looks up the session named by the mcp-session-id header, or answers with an error
+  function requestSession(req: Request, res: Response): McpSession | undefined {
     const sessionId = req.headers["mcp-session-id"] as string | undefined;
     if (!sessionId) {
-      return res.status(400).json({
-        jsonrpc: "2.0",
-        error: { code: -32600, message: "Missing mcp-session-id header" },
-        id: null,
-      });
+      jsonRpcError(res, 400, -32600, "Missing mcp-session-id header");
+      return undefined;
     }
-    const transport = sessions.get(sessionId);
-    if (!transport) {
-      return res.status(404).json({
-        jsonrpc: "2.0",
-        error: { code: -32600, message: "Session not found" },
-        id: null,
-      });
+    const session = sessions.get(sessionId);
+    // Another key's session is reported as missing rather than confirmed to exist
+    if (!session || session.apiKey.name !== getApiKey(res).name) {
+      sessionNotFound(res);
+      return undefined;
     }
-    await transport.handleRequest(req, res);
+    return session;
+  }
+
+  // MCP endpoint - GET for SSE
+  app.get("/mcp", async (req: Request, res: Response) => {
+    const session = requestSession(req, res);
+    if (!session) return;
+    track(session, res);
+    await session.transport.handleRequest(req, res);
   });
 
   // MCP endpoint - DELETE to close session
   app.delete("/mcp", async (req: Request, res: Response) => {
-    const sessionId = req.headers["mcp-session-id"] as string | undefined;
-    if (sessionId && sessions.has(sessionId)) {
-      const transport = sessions.get(sessionId);
-      if (transport) await transport.close();
-      sessions.delete(sessionId);
-    }
+    const session = requestSession(req, res);
+    if (!session) return;
+    await closeSession(req.headers["mcp-session-id"] as string, "deleted");
     res.status(200).json({ success: true });
   });
+
+  // Open sessions, most recently active first (for GET /admin/sessions)
+  function listSessions(): McpSessionInfo[] {
+    const now = Date.now();
+    return [...sessions.entries()]
+      .map(([id, session]) => ({
+        id,
+        apiKey: session.apiKey.name,
+        createdAt: new Date(session.createdAt).toISOString(),
+        lastActivityAt: new Date(session.lastActivityAt).toISOString(),
+        ageSeconds: Math.round((now - session.createdAt) / 1000),
+        idleSeconds: session.openRequests > 0 ? 0 : Math.round((now - session.lastActivityAt) / 1000),
+        openRequests: session.openRequests,
+        toolCalls: Object.values(session.toolCalls).reduce((sum, count) => sum + count, 0),
+        toolCallsByName: session.toolCalls,
+      }))
+      .sort((a, b) => b.lastActivityAt.localeCompare(a.lastActivityAt));
+  }
+
+  return { listSessions, sessionCount: () => sessions.size };
 }
@@ -0,0 +1,246 @@
+// Merges every service's OpenAPI 3.x spec into one gateway document.
+//
+// - Paths keep their original form; each operation is tagged with its service
+//   and gets its own `servers` entry pointing at that service
+// - An operation whose method + path another service already defines (every
+//   service's `GET /health`) moves to `/<service><path>`, served through the
+//   registry's `/proxy` passthrough
+// - Component names that collide with a different definition are renamed to
+//   `<Service>_<Name>` and every `$ref` to them is rewritten
+// - operationIds are made unique across services
+// - Anything renamed or dropped is listed in `x-registry-merge-report`
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+
+type JsonObject = Record<string, unknown>;
+
+interface OpenApiDocument {
+  openapi?: string;
+  info?: { title?: string; description?: string; version?: string };
+  servers?: Array<{ url: string; description?: string }>;
+  paths?: Record<string, Record<string, unknown>>;
+  components?: Record<string, Record<string, unknown>>;
+  security?: unknown[];
+  tags?: Array<{ name: string; description?: string }>;
+}
+
+export interface MergeInput {
+  name: string;
+  baseUrl: string;
+  spec: unknown;
+  error?: string;
+}
+
+export interface MergeReport {
+  services: string[];
+  renamedComponents: Array<{ service: string; section: string; from: string; to: string }>;
+  renamedOperationIds: Array<{ service: string; method: string; path: string; from: string; to: string }>;
+  prefixedPaths: Array<{ service: string; method: string; from: string; to: string }>;
+  dropped: Array<{ service: string; method?: string; path?: string; reason: string }>;
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function pascalCase(name: string): string {
+  return name
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+}
+
+// Deep-copy a JSON value, rewriting `$ref`s through the given map
+function rewriteRefs(value: unknown, refMap: Map<string, string>): unknown {
+  if (Array.isArray(value)) return value.map((item) => rewriteRefs(item, refMap));
+  if (!isObject(value)) return value;
+
+  const copy: JsonObject = {};
+  for (const [key, child] of Object.entries(value)) {
+    copy[key] = key === "$ref" && typeof child === "string"
+      ? refMap.get(child) ?? child
+      : rewriteRefs(child, refMap);
+  }
+  return copy;
+}
+
+function collectRefs(value: unknown, refs: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(value)) {
+    for (const item of value) collectRefs(item, refs);
+  } else if (isObject(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === "$ref" && typeof child === "string") refs.add(child);
+      else collectRefs(child, refs);
+    }
+  }
+  return refs;
+}
+
+function serviceServerUrl(service: MergeInput, spec: OpenApiDocument): string {
+  // Relative server URLs (e.g. "/api") are resolved against the registered base URL
+  const declared = spec.servers?.[0]?.url;
+  if (declared && declared.startsWith("/")) {
+    return `${service.baseUrl.replace(/\/$/, "")}${declared}`;
+  }
+  return service.baseUrl;
+}
+
+export function mergeSpecs(inputs: MergeInput[]): OpenApiDocument & { "x-registry-merge-report": MergeReport } {
+  const report: MergeReport = {
+    services: [],
+    renamedComponents: [],
+    renamedOperationIds: [],
+    prefixedPaths: [],
+    dropped: [],
+  };
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  const components: Record<string, Record<string, unknown>> = {};
+  const tags: Array<{ name: string; description?: string }> = [];
+  const operationIds = new Set<string>();
+  let openapiVersion = "3.0.3";
+
+  for (const service of inputs) {
+    if (!isObject(service.spec)) {
+      report.dropped.push({ service: service.name, reason: service.error || "Spec unavailable" });
+      continue;
+    }
+    const spec = service.spec as OpenApiDocument;
+    if (typeof spec.openapi !== "string" || !spec.openapi.startsWith("3.")) {
+      report.dropped.push({ service: service.name, reason: "Not an OpenAPI 3.x document" });
+      continue;
+    }
+    if (spec.openapi.startsWith("3.1")) openapiVersion = "3.1.0";
+
+    report.services.push(service.name);
+    const prefix = pascalCase(service.name);
+
+    // Work out which components must be renamed. A name is renamed when it
+    // collides with a different definition, or when it is identical on the
+    // surface but references a component that itself had to be renamed.
+    const renamed = new Set<string>();
+    const ownComponents = spec.components || {};
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const [section, entries] of Object.entries(ownComponents)) {
+        if (!isObject(entries)) continue;
+        for (const [name, definition] of Object.entries(entries)) {
+          const ref = `#/components/${section}/${name}`;
+          if (renamed.has(ref) || !(name in (components[section] || {}))) continue;
+          const differs =
+            JSON.stringify(components[section][name]) !== JSON.stringify(definition) ||
+            [...collectRefs(definition)].some((r) => renamed.has(r));
+          if (differs) {
+            renamed.add(ref);
+            changed = true;
+          }
+        }
+      }
+    }
+
+    const refMap = new Map<string, string>();
+    for (const ref of renamed) {
+      const [, , section, name] = ref.split("/");
+      let target = `${prefix}_${name}`;
+      for (let i = 2; target in (components[section] || {}); i++) target = `${prefix}_${name}${i}`;
+      refMap.set(ref, `#/components/${section}/${target}`);
+      report.renamedComponents.push({ service: service.name, section, from: name, to: target });
+    }
+
+    for (const [section, entries] of Object.entries(ownComponents)) {
+      if (!isObject(entries)) continue;
+      components[section] ||= {};
+      for (const [name, definition] of Object.entries(entries)) {
+        const ref = `#/components/${section}/${name}`;
+        const target = refMap.get(ref)?.split("/").pop() || name;
+        components[section][target] = rewriteRefs(definition, refMap);
+      }
+    }
+
+    const server = { url: serviceServerUrl(service, spec), description: service.name };
+    // Relative to the registry: /proxy + /<service><path> reaches <path> on the service
+    const proxyServer = { url: "/proxy", description: `${service.name} through the registry` };
+    tags.push({ name: service.name, description: spec.info?.description || spec.info?.title });
+    for (const tag of spec.tags || []) {
+      if (!tags.some((t) => t.name === tag.name)) tags.push(tag);
+    }
+
+    for (const [path, pathItem] of Object.entries(spec.paths || {})) {
+      if (!isObject(pathItem)) continue;
+      const shared = Object.fromEntries(
+        Object.entries(pathItem).filter(([key]) => !HTTP_METHODS.includes(key) && key !== "servers")
+      );
+
+      for (const method of HTTP_METHODS) {
+        if (!isObject(pathItem[method])) continue;
+        let mergedPath = path;
+        if (paths[path]?.[method]) {
+          mergedPath = `/${service.name}${path}`;
+          if (paths[mergedPath]?.[method]) {
+            const owner = (paths[path][method] as JsonObject)["x-registry-service"];
+            report.dropped.push({
+              service: service.name,
+              method: method.toUpperCase(),
+              path,
+              reason: `Already defined by "${owner}", and ${mergedPath} is taken too`,
+            });
+            continue;
+          }
+          report.prefixedPaths.push({ service: service.name, method: method.toUpperCase(), from: path, to: mergedPath });
+        }
+
+        const operation = rewriteRefs(pathItem[method], refMap) as JsonObject;
+
+        // Path-level parameters are folded into the operation because other
+        // services may contribute operations to the same path item
+        if (Array.isArray(shared.parameters)) {
+          operation.parameters = [
+            ...(rewriteRefs(shared.parameters, refMap) as unknown[]),
+            ...((operation.parameters as unknown[]) || []),
+          ];
+        }
+        if (!operation.security && spec.security) operation.security = spec.security;
+
+        const ownTags = Array.isArray(operation.tags) ? (operation.tags as string[]) : [];
+        operation.tags = [service.name, ...ownTags.filter((t) => t !== service.name)];
+        operation.servers = [mergedPath === path ? server : proxyServer];
+        operation["x-registry-service"] = service.name;
+
+        if (typeof operation.operationId === "string") {
+          const original = operation.operationId;
+          let unique = original;
+          if (operationIds.has(unique)) {
+            unique = `${prefix}_${original}`;
+            for (let i = 2; operationIds.has(unique); i++) unique = `${prefix}_${original}${i}`;
+            report.renamedOperationIds.push({
+              service: service.name,
+              method: method.toUpperCase(),
+              path: mergedPath,
+              from: original,
+              to: unique,
+            });
+          }
+          operation.operationId = unique;
+          operationIds.add(unique);
+        }
+
+        (paths[mergedPath] ||= {})[method] = operation;
+      }
+    }
+  }
+
+  return {
+    openapi: openapiVersion,
+    info: {
+      title: "API Registry - merged gateway",
+      description: `Combined OpenAPI document for: ${report.services.join(", ") || "(no services)"}`,
+      version: "1.0.0",
+    },
+    tags,
+    paths,
+    components,
+    "x-registry-merge-report": report,
+  };
+}
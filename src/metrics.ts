@@ -0,0 +1,220 @@
+// Prometheus metrics behind GET /metrics, in the text exposition format.
+//
+// Label values come from bounded sets: route patterns (not raw paths),
+// registered service names, known HTTP methods and tool names. As a backstop,
+// a metric that reaches MAX_SERIES label sets folds any new ones into a single
+// series with every label set to "other".
+
+const MAX_SERIES = 500;
+
+// Seconds; spans cache hits (sub-millisecond) to slow upstreams (the 30s call timeout)
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const METHODS = ["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"];
+
+type Labels = Record<string, string>;
+
+interface Series {
+  labels: Labels;
+  value: number;
+  // Histograms only: per-bucket counts (not cumulative) and the sum of observations
+  buckets?: number[];
+  sum?: number;
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  series: Map<string, Series>;
+  // Gauges computed at scrape time
+  collect?: () => Array<{ labels: Labels; value: number }>;
+}
+
+export function methodLabel(method: string): string {
+  const upper = method.toUpperCase();
+  return METHODS.includes(upper) ? upper : "OTHER";
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels, extra?: Labels): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  if (entries.length === 0) return "";
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(",")}}`;
+}
+
+function formatNumber(value: number): string {
+  if (value === Infinity) return "+Inf";
+  return Number.isInteger(value) ? String(value) : String(Math.round(value * 1e6) / 1e6);
+}
+
+export function createMetrics() {
+  const metrics: Metric[] = [];
+
+  function define(name: string, help: string, type: Metric["type"], collect?: Metric["collect"]): Metric {
+    const metric: Metric = { name, help, type, series: new Map(), collect };
+    metrics.push(metric);
+    return metric;
+  }
+
+  function seriesFor(metric: Metric, labels: Labels): Series {
+    const key = JSON.stringify(labels);
+    let series = metric.series.get(key);
+    if (series) return series;
+
+    if (metric.series.size >= MAX_SERIES) {
+      const other = Object.fromEntries(Object.keys(labels).map((name) => [name, "other"]));
+      const otherKey = JSON.stringify(other);
+      series = metric.series.get(otherKey);
+      if (series) return series;
+      console.warn(`Metric ${metric.name} reached ${MAX_SERIES} label sets; folding new ones into "other"`);
+      labels = other;
+    }
+
+    series = { labels, value: 0 };
+    if (metric.type === "histogram") {
+      series.buckets = DURATION_BUCKETS.map(() => 0);
+      series.sum = 0;
+    }
+    metric.series.set(JSON.stringify(labels), series);
+    return series;
+  }
+
+  function counter(name: string, help: string) {
+    const metric = define(name, help, "counter");
+    return (labels: Labels, amount = 1) => {
+      seriesFor(metric, labels).value += amount;
+    };
+  }
+
+  function histogram(name: string, help: string) {
+    const metric = define(name, help, "histogram");
+    return (labels: Labels, seconds: number) => {
+      const series = seriesFor(metric, labels);
+      series.value++;
+      series.sum! += seconds;
+      const bucket = DURATION_BUCKETS.findIndex((le) => seconds <= le);
+      if (bucket !== -1) series.buckets![bucket]++;
+    };
+  }
+
+  function gauge(name: string, help: string, collect: NonNullable<Metric["collect"]>) {
+    define(name, help, "gauge", collect);
+  }
+
+  function render(): string {
+    const lines: string[] = [];
+    for (const metric of metrics) {
+      lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`);
+
+      if (metric.collect) {
+        for (const { labels, value } of metric.collect()) {
+          lines.push(`${metric.name}${formatLabels(labels)} ${formatNumber(value)}`);
+        }
+        continue;
+      }
+
+      for (const series of metric.series.values()) {
+        if (metric.type !== "histogram") {
+          lines.push(`${metric.name}${formatLabels(series.labels)} ${formatNumber(series.value)}`);
+          continue;
+        }
+        let cumulative = 0;
+        for (const [i, le] of DURATION_BUCKETS.entries()) {
+          cumulative += series.buckets![i];
+          lines.push(`${metric.name}_bucket${formatLabels(series.labels, { le: String(le) })} ${cumulative}`);
+        }
+        lines.push(
+          `${metric.name}_bucket${formatLabels(series.labels, { le: "+Inf" })} ${series.value}`,
+          `${metric.name}_sum${formatLabels(series.labels)} ${formatNumber(series.sum!)}`,
+          `${metric.name}_count${formatLabels(series.labels)} ${series.value}`
+        );
+      }
+    }
+    return `${lines.join("\n")}\n`;
+  }
+
+  return { counter, histogram, gauge, render };
+}
+
+export type Metrics = ReturnType<typeof createMetrics>;
+
+// Where the registry's own metrics come from at scrape time
+export interface RegistryMetricSources {
+  services(): Array<{ source: string; status: string }>;
+  mcpSessions(): number;
+}
+
+// The registry's metrics, with one recorder per measured event
+export function createRegistryMetrics(sources: RegistryMetricSources) {
+  const metrics = createMetrics();
+
+  const httpRequests = metrics.counter("registry_http_requests_total", "REST requests by route and status");
+  const httpDuration = metrics.histogram(
+    "registry_http_request_duration_seconds",
+    "REST request duration by route and status"
+  );
+  const specLookups = metrics.counter(
+    "registry_spec_cache_lookups_total",
+    "Spec lookups by service and cache result (hit, stale, miss)"
+  );
+  const specFetchDuration = metrics.histogram(
+    "registry_spec_fetch_duration_seconds",
+    "Upstream spec fetch duration by service"
+  );
+  const specFetchErrors = metrics.counter(
+    "registry_spec_fetch_errors_total",
+    "Upstream spec fetches where every location failed, by service"
+  );
+  const toolCalls = metrics.counter("registry_mcp_tool_calls_total", "MCP tool calls by tool and outcome");
+  const toolDuration = metrics.histogram("registry_mcp_tool_duration_seconds", "MCP tool call duration by tool");
+  const upstreamCalls = metrics.counter(
+    "registry_upstream_requests_total",
+    "call_api and /proxy requests that reached the service, by service, method and status (\"error\" without a response)"
+  );
+  const upstreamDuration = metrics.histogram(
+    "registry_upstream_request_duration_seconds",
+    "Duration of call_api and /proxy requests that reached the service, by service and method"
+  );
+
+  metrics.gauge("registry_mcp_sessions", "Open MCP sessions", () => [{ labels: {}, value: sources.mcpSessions() }]);
+  metrics.gauge("registry_services", "Registered services by source and health status", () => {
+    const counts = new Map<string, { labels: Labels; value: number }>();
+    for (const { source, status } of sources.services()) {
+      const key = `${source}\n${status}`;
+      const entry = counts.get(key) || { labels: { source, status }, value: 0 };
+      entry.value++;
+      counts.set(key, entry);
+    }
+    return [...counts.values()];
+  });
+
+  return {
+    httpRequest(method: string, route: string, status: number, seconds: number) {
+      const labels = { method: methodLabel(method), route, status: String(status) };
+      httpRequests(labels);
+      httpDuration(labels, seconds);
+    },
+    specLookup(service: string, result: string) {
+      specLookups({ service, result });
+    },
+    specFetch(service: string, seconds: number, failed: boolean) {
+      specFetchDuration({ service }, seconds);
+      if (failed) specFetchErrors({ service });
+    },
+    toolCall(tool: string, seconds: number, failed: boolean) {
+      toolCalls({ tool, outcome: failed ? "error" : "success" });
+      toolDuration({ tool }, seconds);
+    },
+    upstreamCall(service: string, method: string, status: number | undefined, seconds: number) {
+      upstreamCalls({ service, method: methodLabel(method), status: status === undefined ? "error" : String(status) });
+      upstreamDuration({ service, method: methodLabel(method) }, seconds);
+    },
+    render: metrics.render,
+  };
+}
+
+export type RegistryMetrics = ReturnType<typeof createRegistryMetrics>;
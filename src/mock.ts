@@ -0,0 +1,241 @@
+import { MediaTypeObject, OpenApiSpec, resolveRef, SchemaObject } from "./openapi.js";
+import { validateCall } from "./validate.js";
+
+// Spec-driven mock responses for /mock/:service/* and call_api's `mock: true`.
+// Requests are matched and validated like proxied calls; the response comes
+// from the operation's examples or is synthesized from its schema.
+//
+// X-Mock-Status picks one of the documented status codes; X-Mock-Seed
+// switches to random (but reproducible for the same seed) examples and values.
+
+export const MOCK_STATUS_HEADER = "x-mock-status";
+export const MOCK_SEED_HEADER = "x-mock-seed";
+
+// Recursive schemas are cut off below this depth
+const MAX_MOCK_DEPTH = 8;
+
+export interface MockRequest {
+  method: string;
+  // May include a query string
+  path: string;
+  body?: unknown;
+  headers?: Record<string, string | string[] | undefined>;
+}
+
+export interface MockResponse {
+  status: number;
+  contentType?: string;
+  body?: unknown;
+  operation?: { method: string; path: string };
+}
+
+type Random = () => number;
+
+// mulberry32 seeded through FNV-1a, so any string works as a seed
+function createRandom(seed: string): Random {
+  let state = 2166136261;
+  for (let i = 0; i < seed.length; i++) state = Math.imul(state ^ seed.charCodeAt(i), 16777619);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(items: T[], random?: Random): T {
+  return random ? items[Math.floor(random() * items.length)] : items[0];
+}
+
+function randomInt(min: number, max: number, random?: Random): number {
+  return random ? min + Math.floor(random() * (max - min + 1)) : min;
+}
+
+function header(headers: MockRequest["headers"], name: string): string | undefined {
+  const entry = Object.entries(headers || {}).find(([key]) => key.toLowerCase() === name);
+  const value = Array.isArray(entry?.[1]) ? entry[1][0] : entry?.[1];
+  return value?.trim() || undefined;
+}
+
+const WORDS = ["alpha", "bravo", "delta", "echo", "lima", "nova", "orbit", "pixel", "quartz", "sierra"];
+
+function synthesizeString(schema: SchemaObject, random?: Random): string {
+  const n = randomInt(1, 999, random);
+  let value: string;
+  switch (schema.format) {
+    case "date-time":
+      value = new Date(Date.UTC(2024, 0, 1) + randomInt(0, 364, random) * 86_400_000).toISOString();
+      break;
+    case "date":
+      value = new Date(Date.UTC(2024, 0, 1) + randomInt(0, 364, random) * 86_400_000).toISOString().slice(0, 10);
+      break;
+    case "email":
+      value = random ? `${pick(WORDS, random)}${n}@example.com` : "user@example.com";
+      break;
+    case "uuid":
+      value = random
+        ? "xxxxxxxx-xxxx-4xxx-8xxx-xxxxxxxxxxxx".replace(/x/g, () => Math.floor(random() * 16).toString(16))
+        : "00000000-0000-4000-8000-000000000000";
+      break;
+    case "uri":
+    case "url":
+      value = random ? `https://example.com/${pick(WORDS, random)}/${n}` : "https://example.com";
+      break;
+    case "hostname":
+      value = "example.com";
+      break;
+    case "ipv4":
+      value = `192.0.2.${n % 255}`;
+      break;
+    case "byte":
+      value = Buffer.from(random ? pick(WORDS, random) : "string").toString("base64");
+      break;
+    default:
+      value = random ? `${pick(WORDS, random)} ${pick(WORDS, random)}` : "string";
+  }
+  if (schema.minLength !== undefined && value.length < schema.minLength) value = value.padEnd(schema.minLength, "x");
+  if (schema.maxLength !== undefined) value = value.slice(0, schema.maxLength);
+  return value;
+}
+
+// A value that satisfies the schema: its `example` or `default` (except in
+// random mode), an `enum` member, or one built from the type (all properties
+// included unless random)
+function synthesize(
+  spec: OpenApiSpec,
+  schemaOrRef: SchemaObject | undefined,
+  random?: Random,
+  depth = 0,
+  seen: Set<string> = new Set()
+): unknown {
+  if (!schemaOrRef || depth > MAX_MOCK_DEPTH) return null;
+  if (schemaOrRef.$ref) {
+    if (seen.has(schemaOrRef.$ref)) return null;
+    seen = new Set(seen).add(schemaOrRef.$ref);
+  }
+  const schema = resolveRef(spec, schemaOrRef);
+  const next = (child: SchemaObject | undefined) => synthesize(spec, child, random, depth + 1, seen);
+
+  if (!random && schema.example !== undefined) return schema.example;
+  if (!random && schema.default !== undefined) return schema.default;
+  if (schema.enum && schema.enum.length > 0) return pick(schema.enum, random);
+  if (schema.allOf) {
+    const parts = schema.allOf.map(next);
+    return parts.every((part) => part && typeof part === "object" && !Array.isArray(part))
+      ? Object.assign({}, ...parts)
+      : parts.find((part) => part !== null) ?? null;
+  }
+  if (schema.anyOf || schema.oneOf) return next(pick((schema.anyOf || schema.oneOf)!, random));
+
+  const types = Array.isArray(schema.type) ? schema.type.filter((t) => t !== "null") : [schema.type];
+  const type = pick(types, random) ?? (schema.properties ? "object" : schema.items ? "array" : undefined);
+
+  switch (type) {
+    case "string":
+      return synthesizeString(schema, random);
+    case "integer":
+    case "number": {
+      const min = schema.minimum ?? (schema.maximum !== undefined ? Math.min(0, schema.maximum) : 0);
+      const max = schema.maximum ?? min + 1000;
+      const value = randomInt(Math.ceil(min), Math.floor(max), random);
+      return type === "number" && random ? Math.min(max, value + Math.round(random() * 100) / 100) : value;
+    }
+    case "boolean":
+      return random ? random() < 0.5 : true;
+    case "array": {
+      // A recursive item schema ends the recursion with an empty list
+      if (schema.items?.$ref && seen.has(schema.items.$ref)) return [];
+      const min = schema.minItems ?? 1;
+      const max = schema.maxItems ?? min + 2;
+      return Array.from({ length: randomInt(min, max, random) }, () => next(schema.items));
+    }
+    case "object": {
+      const required = new Set(schema.required || []);
+      const result: Record<string, unknown> = {};
+      for (const [name, child] of Object.entries(schema.properties || {})) {
+        // Random mode leaves out some optional properties
+        if (!required.has(name) && random && random() < 0.3) continue;
+        result[name] = next(child);
+      }
+      return result;
+    }
+    default:
+      return null;
+  }
+}
+
+function mediaExample(spec: OpenApiSpec, media: MediaTypeObject, random?: Random): unknown {
+  if (media.example !== undefined) return media.example;
+  const examples = Object.values(media.examples || {})
+    .map((example) => resolveRef(spec, example))
+    .filter((example) => example.value !== undefined);
+  if (examples.length > 0) return pick(examples, random).value;
+  return synthesize(spec, media.schema, random);
+}
+
+// "404" → 404; a range ("4XX") or "default" → the requested status, else
+// the range's first code or 200
+function statusNumber(code: string, requested?: number): number {
+  if (/^\d+$/.test(code)) return Number(code);
+  return requested ?? (code === "default" ? 200 : Number(code.replace(/x/gi, "0")));
+}
+
+export function mockResponse(spec: OpenApiSpec, request: MockRequest): MockResponse {
+  const validation = validateCall(spec, request);
+  if (!validation.operation) {
+    return {
+      status: 404,
+      body: {
+        error: validation.errors[0]?.message,
+        closestOperation: validation.closest,
+      },
+    };
+  }
+
+  const operation = {
+    method: validation.operation.method.toUpperCase(),
+    path: validation.operation.path,
+  };
+  if (validation.errors.length > 0) {
+    return {
+      status: 400,
+      body: { error: "Request does not match the service's OpenAPI spec", validationErrors: validation.errors },
+      operation,
+    };
+  }
+
+  const responses = validation.operation.details.responses || {};
+  const codes = Object.keys(responses).sort();
+  const requestedStatus = header(request.headers, MOCK_STATUS_HEADER);
+  let code: string | undefined;
+
+  if (requestedStatus) {
+    code = codes.find((c) => c === requestedStatus) ??
+      codes.find((c) => c.toUpperCase() === `${requestedStatus[0]}XX`) ??
+      (/^[1-5]\d\d$/.test(requestedStatus) && responses.default ? "default" : undefined);
+    if (!code) {
+      return {
+        status: 400,
+        body: {
+          error: `Status ${requestedStatus} is not documented for ${operation.method} ${operation.path}`,
+          documentedStatuses: codes,
+        },
+        operation,
+      };
+    }
+  } else {
+    code = codes.find((c) => /^2/.test(c)) ?? (responses.default ? "default" : codes[0]);
+  }
+
+  const seed = header(request.headers, MOCK_SEED_HEADER);
+  const random = seed !== undefined ? createRandom(seed) : undefined;
+  // A requested range ("4XX") is answered with the range's first code
+  const requested = requestedStatus && /^[1-5]\d\d$/.test(requestedStatus) ? Number(requestedStatus) : undefined;
+  const status = code ? statusNumber(code, requested) : 200;
+  const response = code ? resolveRef(spec, responses[code]) : undefined;
+  const content = response?.content || {};
+  const contentType = Object.keys(content).find((type) => /json/i.test(type)) ?? Object.keys(content)[0];
+
+  if (!contentType || status === 204 || status === 304) return { status, operation };
+  return { status, contentType, body: mediaExample(spec, content[contentType], random), operation };
+}
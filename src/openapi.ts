@@ -0,0 +1,312 @@
+// Shared OpenAPI parsing used by /llm-context, the MCP tools and spec diffing
+
+export const HTTP_METHODS = ["get", "post", "put", "patch", "delete"];
+
+export interface SchemaObject {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  required?: string[];
+  properties?: Record<string, SchemaObject>;
+  additionalProperties?: boolean | SchemaObject;
+  items?: SchemaObject;
+  allOf?: SchemaObject[];
+  anyOf?: SchemaObject[];
+  oneOf?: SchemaObject[];
+  nullable?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  description?: string;
+  example?: unknown;
+  default?: unknown;
+}
+
+export interface ParameterObject {
+  $ref?: string;
+  name: string;
+  in: string;
+  required?: boolean;
+  description?: string;
+  schema?: SchemaObject;
+}
+
+export interface MediaTypeObject {
+  schema?: SchemaObject;
+  example?: unknown;
+  examples?: Record<string, { $ref?: string; value?: unknown }>;
+}
+
+export interface OperationObject {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  parameters?: ParameterObject[];
+  requestBody?: {
+    $ref?: string;
+    required?: boolean;
+    content?: Record<string, { schema?: SchemaObject }>;
+  };
+  responses?: Record<string, {
+    $ref?: string;
+    description?: string;
+    content?: Record<string, MediaTypeObject>;
+  }>;
+}
+
+export interface OpenApiSpec {
+  openapi?: string;
+  info?: { title?: string; description?: string; version?: string };
+  servers?: Array<{ url: string }>;
+  paths?: Record<string, Record<string, OperationObject>>;
+  components?: Record<string, Record<string, unknown>>;
+}
+
+// Path prefix of the spec's first server: "/v2" for "https://api.example.com/v2"
+// or "/v2" (and for a converted Swagger `basePath`). Empty when there is none
+// or the URL uses server variables.
+export function serverPathPrefix(spec: OpenApiSpec): string {
+  const url = spec.servers?.[0]?.url;
+  if (!url || url.includes("{")) return "";
+  try {
+    return new URL(url, "http://localhost").pathname.replace(/\/+$/, "");
+  } catch {
+    return "";
+  }
+}
+
+export interface Operation {
+  method: string;
+  path: string;
+  details: OperationObject;
+}
+
+// Path-level parameters are merged into each operation (operation-level
+// definitions with the same name and location win)
+export function listOperations(spec: OpenApiSpec): Operation[] {
+  return Object.entries(spec.paths || {}).flatMap(([path, methods]) => {
+    const shared = (methods as { parameters?: ParameterObject[] }).parameters || [];
+    return Object.entries(methods)
+      .filter(([method]) => HTTP_METHODS.includes(method))
+      .map(([method, details]) => {
+        if (shared.length === 0) return { method, path, details };
+        const own = details.parameters || [];
+        const inherited = shared.filter(
+          (p) => !own.some((o) => o.name === p.name && o.in === p.in)
+        );
+        return { method, path, details: { ...details, parameters: [...inherited, ...own] } };
+      });
+  });
+}
+
+// Follow a local `#/components/...` reference; returns the input unchanged
+// when it is not a reference or cannot be resolved
+export function resolveRef<T>(spec: OpenApiSpec, value: T): T {
+  let current: unknown = value;
+  const seen = new Set<string>();
+  while (current && typeof current === "object" && "$ref" in current) {
+    const ref = (current as { $ref: unknown }).$ref;
+    if (typeof ref !== "string" || !ref.startsWith("#/") || seen.has(ref)) break;
+    seen.add(ref);
+    let target: unknown = spec;
+    for (const segment of ref.slice(2).split("/")) {
+      const key = segment.replace(/~1/g, "/").replace(/~0/g, "~");
+      target = target && typeof target === "object" ? (target as Record<string, unknown>)[key] : undefined;
+    }
+    if (target === undefined) break;
+    current = target;
+  }
+  return current as T;
+}
+
+export function jsonBodySchema(operation: OperationObject): SchemaObject | undefined {
+  return operation.requestBody?.content?.["application/json"]?.schema;
+}
+
+export const DETAIL_LEVELS = ["brief", "full"] as const;
+export type DetailLevel = (typeof DETAIL_LEVELS)[number];
+
+// Object levels rendered in endpoint summaries: top-level fields plus one nested level
+const SUMMARY_DEPTH = 2;
+
+// A `$ref`-resolved schema with `allOf` members folded into one object
+function flattenSchema(
+  spec: OpenApiSpec,
+  schemaOrRef: SchemaObject,
+  seen: Set<string>
+): { schema: SchemaObject; seen: Set<string> } {
+  if (schemaOrRef.$ref) seen = new Set(seen).add(schemaOrRef.$ref);
+  const schema = resolveRef(spec, schemaOrRef);
+  if (!schema.allOf) return { schema, seen };
+
+  const merged: SchemaObject = {
+    ...schema,
+    allOf: undefined,
+    properties: { ...schema.properties },
+    required: [...(schema.required || [])],
+  };
+  for (const member of schema.allOf) {
+    if (member.$ref && seen.has(member.$ref)) continue;
+    const flat = flattenSchema(spec, member, seen).schema;
+    merged.type ??= flat.type;
+    Object.assign(merged.properties!, flat.properties);
+    merged.required!.push(...(flat.required || []));
+  }
+  return { schema: merged, seen };
+}
+
+function refName(ref: string): string {
+  return ref.split("/").pop() || ref;
+}
+
+// Compact TypeScript-like rendering, e.g. `{ name: string; status?: "draft" | "active" }`
+export function renderSchema(
+  spec: OpenApiSpec,
+  schemaOrRef: SchemaObject | undefined,
+  depth = SUMMARY_DEPTH,
+  seen: Set<string> = new Set()
+): string {
+  if (!schemaOrRef) return "unknown";
+  // Cycles render as the name of the schema being recursed into
+  if (schemaOrRef.$ref && seen.has(schemaOrRef.$ref)) return refName(schemaOrRef.$ref);
+
+  const flat = flattenSchema(spec, schemaOrRef, seen);
+  const schema = flat.schema;
+  let rendered: string;
+
+  if (schema.enum) {
+    rendered = schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+  } else if (schema.anyOf || schema.oneOf) {
+    rendered = (schema.anyOf || schema.oneOf)!.map((s) => renderSchema(spec, s, depth, flat.seen)).join(" | ");
+  } else if (schema.type === "array" || schema.items) {
+    const item = renderSchema(spec, schema.items, depth, flat.seen);
+    rendered = /[ |]/.test(item) && !item.startsWith("{") ? `(${item})[]` : `${item}[]`;
+  } else if (schema.properties) {
+    if (depth <= 0) {
+      rendered = "object";
+    } else {
+      const required = new Set(schema.required || []);
+      const fields = Object.entries(schema.properties).map(
+        ([name, child]) => `${name}${required.has(name) ? "" : "?"}: ${renderSchema(spec, child, depth - 1, flat.seen)}`
+      );
+      rendered = fields.length > 0 ? `{ ${fields.join("; ")} }` : "object";
+    }
+  } else if (Array.isArray(schema.type)) {
+    rendered = schema.type.join(" | ");
+  } else {
+    rendered = schema.type || "unknown";
+  }
+
+  return schema.nullable ? `${rendered} | null` : rendered;
+}
+
+export interface FieldSummary {
+  name: string;
+  type: string;
+  required: boolean;
+  enum?: unknown[];
+  format?: string;
+  description?: string;
+  fields?: FieldSummary[];
+}
+
+// Structured field list for `detail=full`; nested objects (and arrays of
+// objects) get their own `fields` until `depth` runs out
+function describeFields(
+  spec: OpenApiSpec,
+  schemaOrRef: SchemaObject | undefined,
+  depth = SUMMARY_DEPTH,
+  seen: Set<string> = new Set()
+): FieldSummary[] | undefined {
+  if (!schemaOrRef || depth <= 0) return undefined;
+  if (schemaOrRef.$ref && seen.has(schemaOrRef.$ref)) return undefined;
+
+  const flat = flattenSchema(spec, schemaOrRef, seen);
+  const objectSchema = flat.schema.type === "array" && flat.schema.items
+    ? flattenSchema(spec, flat.schema.items, flat.seen)
+    : flat;
+  if (!objectSchema.schema.properties) return undefined;
+
+  const required = new Set(objectSchema.schema.required || []);
+  return Object.entries(objectSchema.schema.properties).map(([name, childOrRef]) => {
+    const cyclic = !!childOrRef.$ref && objectSchema.seen.has(childOrRef.$ref);
+    const child = cyclic ? childOrRef : flattenSchema(spec, childOrRef, objectSchema.seen).schema;
+    const fields = cyclic ? undefined : describeFields(spec, childOrRef, depth - 1, objectSchema.seen);
+    return {
+      name,
+      // Nested fields are listed separately, so the type stays short
+      type: fields ? (child.type === "array" ? "object[]" : "object") : renderSchema(spec, childOrRef, 0, objectSchema.seen),
+      required: required.has(name),
+      enum: child.enum,
+      format: child.format,
+      description: child.description,
+      fields,
+    };
+  });
+}
+
+// The lowest 2xx response (or `default`) with its JSON schema, if any
+export function successResponse(spec: OpenApiSpec, operation: OperationObject) {
+  const responses = operation.responses || {};
+  const status = Object.keys(responses).filter((code) => /^2/.test(code)).sort()[0] ??
+    (responses.default ? "default" : undefined);
+  if (!status) return undefined;
+
+  const response = resolveRef(spec, responses[status]);
+  const content = response.content || {};
+  const mediaType = Object.keys(content).find((type) => type.includes("json"));
+  return {
+    status,
+    description: response.description,
+    schema: mediaType ? content[mediaType].schema : undefined,
+  };
+}
+
+// Field list for object schemas, a rendered type for anything else
+function schemaDetail(spec: OpenApiSpec, schema: SchemaObject | undefined) {
+  if (!schema) return {};
+  const fields = describeFields(spec, schema);
+  return fields ? { fields } : { type: renderSchema(spec, schema) };
+}
+
+export function summarizeEndpoints(spec: OpenApiSpec, detail: DetailLevel = "brief") {
+  const full = detail === "full";
+
+  return listOperations(spec).map(({ method, path, details }) => {
+    const params = (details.parameters || [])
+      .map((p) => resolveRef<ParameterObject>(spec, p))
+      .filter((p) => p.in !== "header")
+      .map((p) => ({
+        name: p.name,
+        in: p.in,
+        required: p.required || false,
+        type: renderSchema(spec, p.schema, 0),
+        description: full ? p.description : undefined,
+      }));
+
+    const requestBody = resolveRef(spec, details.requestBody);
+    const bodySchema = requestBody && jsonBodySchema({ requestBody });
+    const response = successResponse(spec, details);
+
+    return {
+      method: method.toUpperCase(),
+      path,
+      operationId: full ? details.operationId : undefined,
+      summary: details.summary || details.description || "",
+      description: full && details.summary ? details.description : undefined,
+      params: params.length > 0 ? params : undefined,
+      body: bodySchema && (full
+        ? { required: requestBody?.required || false, ...schemaDetail(spec, bodySchema) }
+        : renderSchema(spec, bodySchema)),
+      response: response && (full
+        ? { status: response.status, description: response.description, ...schemaDetail(spec, response.schema) }
+        : `${response.status}${response.schema ? ` ${renderSchema(spec, response.schema)}` : ""}`),
+    };
+  });
+}
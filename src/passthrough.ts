@@ -0,0 +1,160 @@
+import { randomUUID } from "crypto";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { Request, Response } from "express";
+import { ApiCaller, CALL_TIMEOUT_MS, ProxyRegistry } from "./proxy.js";
+import { environmentKey } from "./environments.js";
+import { RateLimitError } from "./ratelimit.js";
+import { ServiceEntry } from "./services.js";
+
+// Streaming REST passthrough behind ALL /proxy/:service/*: any content type,
+// query string and status preserved, allowlisted headers only (the caller's
+// registry key never reaches the service), service credentials injected.
+
+// Request headers forwarded upstream; PROXY_FORWARD_HEADERS adds more.
+// Accept-Encoding is left out: fetch decodes compressed responses itself.
+const REQUEST_HEADERS = [
+  "accept", "accept-language", "cache-control", "content-type", "content-language",
+  "if-match", "if-none-match", "if-modified-since", "if-unmodified-since", "range",
+  "idempotency-key", "user-agent",
+];
+
+// Upstream response headers passed back to the caller
+const RESPONSE_HEADERS = [
+  "accept-ranges", "cache-control", "content-disposition", "content-language", "content-range",
+  "content-type", "etag", "expires", "last-modified", "link", "location", "retry-after", "vary",
+];
+
+// Never forwarded, even when listed in PROXY_FORWARD_HEADERS
+const BLOCKED_HEADERS = [
+  "authorization", "x-api-key", "cookie", "host", "connection", "content-length", "x-registry-env",
+];
+
+const REQUEST_ID_HEADER = "x-request-id";
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+export interface PassthroughOptions {
+  forwardHeaders: string[];
+}
+
+export function loadPassthroughOptions(): PassthroughOptions {
+  const extra = (process.env.PROXY_FORWARD_HEADERS || "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter((name) => name && !BLOCKED_HEADERS.includes(name));
+  return { forwardHeaders: [...new Set([...REQUEST_HEADERS, ...extra])] };
+}
+
+// Path and query after /proxy/:service, exactly as the caller encoded them
+function upstreamTarget(originalUrl: string): string {
+  const queryStart = originalUrl.indexOf("?");
+  const pathname = queryStart >= 0 ? originalUrl.slice(0, queryStart) : originalUrl;
+  const rest = pathname.split("/").slice(3).join("/");
+  return `/${rest}${queryStart >= 0 ? originalUrl.slice(queryStart) : ""}`;
+}
+
+function forwardedHeaders(req: Request, options: PassthroughOptions, requestId: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const name of options.forwardHeaders) {
+    const value = req.headers[name];
+    if (value !== undefined) headers[name] = Array.isArray(value) ? value.join(", ") : value;
+  }
+
+  const priorFor = req.headers["x-forwarded-for"];
+  const clientIp = req.socket.remoteAddress;
+  headers["x-forwarded-for"] = [priorFor, clientIp].filter(Boolean).join(", ");
+  headers["x-forwarded-host"] = req.get("host") || "";
+  headers["x-forwarded-proto"] = req.protocol;
+  headers["x-forwarded-prefix"] = `/proxy/${encodeURIComponent(req.params.service as string)}`;
+  headers[REQUEST_ID_HEADER] = requestId;
+  return headers;
+}
+
+export async function proxyRequest(
+  registry: Pick<ProxyRegistry, "credentials" | "audit" | "rateLimiter" | "onUpstreamCall">,
+  entry: ServiceEntry,
+  options: PassthroughOptions,
+  caller: ApiCaller,
+  req: Request,
+  res: Response
+) {
+  const started = Date.now();
+  const target = upstreamTarget(req.originalUrl);
+  const incomingId = req.get(REQUEST_ID_HEADER);
+  const requestId = incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : randomUUID();
+  res.setHeader("X-Request-Id", requestId);
+
+  let status: number | undefined;
+  let error: string | undefined;
+
+  try {
+    const url = new URL(`${entry.baseUrl}${target}`);
+    const headers = forwardedHeaders(req, options, requestId);
+    registry.credentials.apply(environmentKey(entry), url, headers);
+
+    const hasBody = !["GET", "HEAD"].includes(req.method);
+    // Times out waiting for the response headers, not while streaming the body
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new Error("Upstream timed out")), CALL_TIMEOUT_MS);
+    res.on("close", () => {
+      if (!res.writableFinished) controller.abort(new Error("Client disconnected"));
+    });
+
+    await registry.rateLimiter.runForService(environmentKey(entry), async () => {
+      const upstreamStarted = Date.now();
+      try {
+        let upstream: globalThis.Response;
+        try {
+          upstream = await fetch(url, {
+            method: req.method,
+            headers,
+            body: hasBody ? (Readable.toWeb(req) as ReadableStream) : undefined,
+            duplex: "half",
+            signal: controller.signal,
+            redirect: "manual",
+          } as RequestInit);
+        } finally {
+          clearTimeout(timer);
+        }
+
+        status = upstream.status;
+        res.status(upstream.status);
+        for (const name of RESPONSE_HEADERS) {
+          const value = upstream.headers.get(name);
+          if (value !== null) res.setHeader(name, value);
+        }
+        if (!upstream.body || req.method === "HEAD") return void res.end();
+        await pipeline(Readable.fromWeb(upstream.body as import("stream/web").ReadableStream), res);
+      } finally {
+        registry.onUpstreamCall(entry.name, req.method, status, Date.now() - upstreamStarted);
+      }
+    }, entry.rateLimit);
+  } catch (err) {
+    error = err instanceof Error ? err.message : "Request failed";
+    if (!res.headersSent) {
+      if (err instanceof RateLimitError) {
+        res.setHeader("Retry-After", String(err.retryAfterSeconds));
+        status = 429;
+        res.status(429).json({ error: err.message, code: "rate_limited", retryAfterSeconds: err.retryAfterSeconds });
+      } else {
+        status = err instanceof Error && err.message === "Upstream timed out" ? 504 : 502;
+        res.status(status).json({ error: registry.credentials.redact(error), requestId });
+      }
+    } else {
+      // Headers already went out; all we can do is cut the stream
+      res.destroy();
+    }
+  }
+
+  registry.audit.record({
+    timestamp: new Date(started).toISOString(),
+    apiKey: caller.apiKey,
+    service: entry.name,
+    env: entry.env,
+    method: req.method,
+    path: target,
+    status,
+    latencyMs: Date.now() - started,
+    error,
+  });
+}
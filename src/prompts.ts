@@ -0,0 +1,125 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { SpecResult } from "./cache.js";
+import { ApiKeyIdentity, hasScope } from "./auth.js";
+import { environmentKey } from "./environments.js";
+import { ServiceHealth } from "./health.js";
+import { OpenApiSpec, summarizeEndpoints } from "./openapi.js";
+import { operationKey, operationResourceUri } from "./resources.js";
+import { SearchIndex, searchOperations } from "./search.js";
+import { ServiceEntry } from "./services.js";
+
+// MCP prompts filled in from registry data: planning a call for a goal and
+// explaining one service (in the API key's default environment)
+
+interface PromptRegistry {
+  getServices(): Record<string, ServiceEntry>;
+  fetchSpec(service: ServiceEntry): Promise<SpecResult>;
+  getHealth(name: string): ServiceHealth;
+  searchIndex: SearchIndex;
+}
+
+// Candidate operations included in a call plan
+const PLAN_CANDIDATES = 8;
+
+function userMessage(text: string) {
+  return { messages: [{ role: "user" as const, content: { type: "text" as const, text } }] };
+}
+
+export function registerPrompts(server: McpServer, registry: PromptRegistry, apiKey: ApiKeyIdentity) {
+  function requireReadScope() {
+    if (!hasScope(apiKey, "read:specs")) {
+      throw new McpError(ErrorCode.InvalidRequest, `API key is missing the "read:specs" scope`);
+    }
+  }
+
+  server.registerPrompt(
+    "plan_api_call",
+    {
+      description: "Plan the API call(s) needed to achieve a goal, using the endpoints that best match it",
+      argsSchema: { goal: z.string().describe("What you want to achieve (e.g. 'send a follow-up email to lead 42')") },
+    },
+    async ({ goal }) => {
+      requireReadScope();
+      const services = registry.getServices();
+      const { results } = await searchOperations(registry, services, goal, PLAN_CANDIDATES);
+
+      const candidates = await Promise.all(
+        results.map(async (result) => {
+          const spec = (await registry.fetchSpec(services[result.service])).spec as OpenApiSpec | null;
+          const endpoint = spec && summarizeEndpoints(spec).find(
+            (e) => e.method === result.method && e.path === result.path
+          );
+          return {
+            service: result.service,
+            method: result.method,
+            path: result.path,
+            summary: result.summary,
+            params: endpoint?.params,
+            body: endpoint?.body,
+            response: endpoint?.response,
+            doc: operationResourceUri(result.service, operationKey(result.method, result.path, result.operationId)),
+          };
+        })
+      );
+
+      const context = candidates.length > 0
+        ? `Candidate endpoints, best match first:\n\n${JSON.stringify(candidates, null, 2)}`
+        : "No registered endpoint matched this goal. Use `search_endpoints` with other wording or `get_all_endpoints` to browse.";
+
+      return userMessage([
+        `Goal: ${goal}`,
+        "",
+        context,
+        "",
+        "Plan the API calls needed to achieve this goal. For each step give the service, method, path, " +
+        "the params and body to send (and where each value comes from, including earlier responses), " +
+        "and what to check in the response. Execute the steps with the `call_api` tool. " +
+        "Read a candidate's `doc` resource when you need its full documentation. Ask for any missing input instead of guessing it.",
+      ].join("\n"));
+    }
+  );
+
+  server.registerPrompt(
+    "explain_service",
+    {
+      description: "Explain what a registered service does and how to use its API",
+      argsSchema: { service: z.string().describe("Service name (e.g. 'campaign-service')") },
+    },
+    async ({ service: name }) => {
+      requireReadScope();
+      const service = registry.getServices()[name];
+      if (!service) throw new McpError(ErrorCode.InvalidParams, `Service "${name}" not found`);
+
+      const result = await registry.fetchSpec(service);
+      const spec = result.spec as OpenApiSpec | null;
+      // Health is only monitored for the default environment
+      const health = environmentKey(service) === name ? registry.getHealth(name) : undefined;
+
+      const overview = {
+        service: name,
+        env: service.env,
+        baseUrl: service.baseUrl,
+        description: service.description,
+        owner: service.owner,
+        tags: service.tags.length > 0 ? service.tags : undefined,
+        status: health?.status,
+        title: spec?.info?.title,
+        specDescription: spec?.info?.description,
+        version: spec?.info?.version,
+        specError: result.spec ? undefined : result.error,
+        endpoints: spec ? summarizeEndpoints(spec) : [],
+      };
+
+      return userMessage([
+        `Explain the "${name}" service to a developer who is about to integrate with it.`,
+        "",
+        JSON.stringify(overview, null, 2),
+        "",
+        "Cover what the service is for, its main resources and how the endpoints relate to each other, " +
+        "typical workflows (which calls to make in which order), required inputs, and anything notable in its current status.",
+      ].join("\n"));
+    }
+  );
+}
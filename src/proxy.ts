@@ -0,0 +1,275 @@
+import { z } from "zod";
+import { SpecResult } from "./cache.js";
+import { AuditLog } from "./audit.js";
+import { ApiKeyIdentity } from "./auth.js";
+import { CredentialStore } from "./credentials.js";
+import { EnvironmentPolicy, environmentKey, selectEnvironment } from "./environments.js";
+import { OpenApiSpec, serverPathPrefix } from "./openapi.js";
+import { RateLimiter, RateLimitError } from "./ratelimit.js";
+import { ServiceEntry } from "./services.js";
+import { validateCall } from "./validate.js";
+import { mockResponse } from "./mock.js";
+
+// The proxied call behind the MCP `call_api` tool: service and environment
+// lookup, spec validation, server-side credential injection, then the upstream request.
+// `mock: true` answers from the spec instead (see mock.ts).
+
+export const CALL_TIMEOUT_MS = 30_000;
+
+// Arguments of `call_api` (and of each workflow step)
+export const apiCallShape = {
+  service: z.string().describe("Service name (e.g. 'api-service')"),
+  env: z.string().optional().describe("Environment of the service (e.g. 'staging'). Defaults to the API key's default environment, then the service's"),
+  method: z.enum(["GET", "POST", "PUT", "PATCH", "DELETE"]).describe("HTTP method"),
+  path: z.string().describe("Endpoint path (e.g. '/v1/campaigns')"),
+  body: z.record(z.string(), z.unknown()).optional().describe("Request body (for POST/PUT/PATCH)"),
+  headers: z.record(z.string(), z.string()).optional().describe("Additional headers to send. Service credentials are injected by the registry; don't pass API keys here"),
+  strict: z.boolean().optional().describe("Reject calls to endpoints that are not documented in the service's spec"),
+  mock: z.boolean().optional().describe("Answer from the service's spec (examples or generated data) instead of calling it. Pass an X-Mock-Status header to pick a documented status, X-Mock-Seed for varied data"),
+};
+
+export interface ApiCallRequest {
+  service: string;
+  env?: string;
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  path: string;
+  body?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  strict?: boolean;
+  mock?: boolean;
+}
+
+export interface ProxyRegistry {
+  getServices(): Record<string, ServiceEntry>;
+  fetchSpec(service: ServiceEntry): Promise<SpecResult>;
+  credentials: CredentialStore;
+  audit: AuditLog;
+  rateLimiter: RateLimiter;
+  // Called for every request that reached the service (status undefined when
+  // it failed without a response); calls rejected by the registry never get here
+  onUpstreamCall(service: string, method: string, status: number | undefined, durationMs: number): void;
+}
+
+// Who is making the call: for the audit log, and the key's environment
+// default and allowlist
+export interface ApiCaller extends EnvironmentPolicy {
+  apiKey: string;
+  sessionId?: string;
+  // The key's own token bucket settings
+  rateLimit?: ApiKeyIdentity["rateLimit"];
+}
+
+export function apiCaller(identity: ApiKeyIdentity, sessionId?: string): ApiCaller {
+  return {
+    apiKey: identity.name,
+    sessionId,
+    defaultEnv: identity.defaultEnv,
+    allowEnvs: identity.allowEnvs,
+    rateLimit: identity.rateLimit,
+  };
+}
+
+// What a caller gets back when a rate limit (per key, per service or the
+// concurrency cap) stops a call
+export function rateLimitResult(err: RateLimitError): Record<string, unknown> {
+  return {
+    error: err.message,
+    code: "rate_limited",
+    limit: err.limit,
+    retryAfterSeconds: err.retryAfterSeconds,
+  };
+}
+
+// Takes a token from the key's bucket; undefined when one was available
+export function checkKeyLimit(
+  rateLimiter: RateLimiter,
+  apiKey: string,
+  override?: ApiKeyIdentity["rateLimit"]
+): Record<string, unknown> | undefined {
+  try {
+    rateLimiter.checkKey(apiKey, override);
+    return undefined;
+  } catch (err) {
+    if (!(err instanceof RateLimitError)) throw err;
+    return rateLimitResult(err);
+  }
+}
+
+export async function callApi(
+  registry: ProxyRegistry,
+  request: ApiCallRequest,
+  caller: ApiCaller
+): Promise<Record<string, unknown>> {
+  const started = Date.now();
+  // Every call (each workflow step and retry too) is charged to the key, so one
+  // request can't fan out past the key's limit
+  const limited = checkKeyLimit(registry.rateLimiter, caller.apiKey, caller.rateLimit);
+  const lookup = limited ? { result: limited } : lookupService(registry, request, caller);
+  const result = "entry" in lookup ? await executeCall(registry, lookup.entry, request) : lookup.result;
+
+  registry.audit.record({
+    timestamp: new Date(started).toISOString(),
+    apiKey: caller.apiKey,
+    sessionId: caller.sessionId,
+    service: request.service,
+    env: "entry" in lookup ? lookup.entry.env : request.env,
+    method: request.method,
+    path: request.path,
+    requestBody: request.body,
+    status: typeof result.status === "number" ? result.status : undefined,
+    latencyMs: Date.now() - started,
+    error: typeof result.error === "string" ? result.error : undefined,
+    mocked: request.mock || undefined,
+  });
+
+  return result;
+}
+
+// The service as deployed in the requested (or the caller's default) environment
+function lookupService(
+  registry: ProxyRegistry,
+  request: ApiCallRequest,
+  caller: ApiCaller
+): { entry: ServiceEntry } | { result: Record<string, unknown> } {
+  const services = registry.getServices();
+  const service = services[request.service];
+  if (!service) {
+    return {
+      result: {
+        error: `Service "${request.service}" not found`,
+        available: Object.keys(services),
+      },
+    };
+  }
+  const selection = selectEnvironment(service, caller, request.env);
+  if ("error" in selection) {
+    return { result: { error: selection.error, environments: selection.environments } };
+  }
+  return selection;
+}
+
+async function executeCall(
+  registry: ProxyRegistry,
+  entry: ServiceEntry,
+  request: ApiCallRequest
+): Promise<Record<string, unknown>> {
+  const { service, method, path, body, headers: extraHeaders, strict, mock } = request;
+  // Anything else after the base URL can change the host ("@evil.com/x", ".evil.com")
+  if (!path.startsWith("/")) {
+    return { error: `Path must start with "/" (got "${path}")` };
+  }
+  const sendsBody = ["POST", "PUT", "PATCH"].includes(method);
+  const specResult = await registry.fetchSpec(entry);
+  // Spec paths are relative to the spec's server prefix (e.g. a Swagger
+  // basePath); callers may pass the path with or without it
+  const prefix = specResult.spec ? serverPathPrefix(specResult.spec as OpenApiSpec) : "";
+  const specPath = prefix && path.startsWith(`${prefix}/`) ? path.slice(prefix.length) : path;
+  if (mock) {
+    if (!specResult.spec) {
+      return {
+        error: `Cannot mock call: spec for "${service}" is unavailable`,
+        detail: specResult.error,
+      };
+    }
+    const mocked = mockResponse(specResult.spec as OpenApiSpec, {
+      method,
+      path: specPath,
+      body: sendsBody ? body : undefined,
+      headers: extraHeaders,
+    });
+    return {
+      status: mocked.status,
+      ok: mocked.status < 400,
+      data: mocked.body,
+      mocked: true,
+    };
+  }
+
+  if (specResult.spec) {
+    const validation = validateCall(specResult.spec as OpenApiSpec, {
+      method,
+      path: specPath,
+      body: sendsBody ? body : undefined,
+    });
+    // Undocumented endpoints are only rejected in strict mode
+    if (validation.errors.length > 0 && (validation.operation || strict)) {
+      return {
+        error: "Request does not match the service's OpenAPI spec",
+        validationErrors: validation.errors,
+        operation: validation.operation && {
+          method: validation.operation.method.toUpperCase(),
+          path: validation.operation.path,
+        },
+        closestOperation: validation.closest,
+      };
+    }
+  } else if (strict) {
+    return {
+      error: `Cannot validate call in strict mode: spec for "${service}" is unavailable`,
+      detail: specResult.error,
+    };
+  }
+
+  try {
+    const base = new URL(entry.baseUrl);
+    const basePath = base.pathname.replace(/\/$/, "");
+    // A base URL registered with the prefix already in it is used as is
+    const upstreamPath = prefix && !basePath.endsWith(prefix) ? `${prefix}${specPath}` : specPath;
+    const url = new URL(`${base.origin}${basePath}${upstreamPath}`);
+    const fetchHeaders: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...extraHeaders,
+    };
+    // Credentials only ever go to the service's own origin
+    if (url.origin === base.origin) registry.credentials.apply(environmentKey(entry), url, fetchHeaders);
+
+    const { response, responseBody } = await registry.rateLimiter.runForService(environmentKey(entry), async () => {
+      const started = Date.now();
+      let status: number | undefined;
+      try {
+        const response = await fetch(url, {
+          method,
+          headers: fetchHeaders,
+          body: body && sendsBody ? JSON.stringify(body) : undefined,
+          signal: AbortSignal.timeout(CALL_TIMEOUT_MS),
+        });
+        status = response.status;
+        return { response, responseBody: await response.text() };
+      } finally {
+        registry.onUpstreamCall(service, method, status, Date.now() - started);
+      }
+    }, entry.rateLimit);
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(responseBody);
+    } catch {
+      parsed = responseBody;
+    }
+
+    return redactResult(registry.credentials, {
+      status: response.status,
+      ok: response.ok,
+      data: parsed,
+    });
+  } catch (err: unknown) {
+    if (err instanceof RateLimitError) return rateLimitResult(err);
+    return redactResult(registry.credentials, {
+      error: err instanceof Error ? err.message : "Request failed",
+    });
+  }
+}
+
+// Upstreams can echo credentials back (or put them in error messages);
+// scrub them from every string value before anything reaches the caller
+function redactResult(credentials: CredentialStore, result: Record<string, unknown>) {
+  function redactValue(value: unknown): unknown {
+    if (typeof value === "string") return credentials.redact(value);
+    if (Array.isArray(value)) return value.map(redactValue);
+    if (value && typeof value === "object") {
+      return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, redactValue(child)]));
+    }
+    return value;
+  }
+  return redactValue(result) as Record<string, unknown>;
+}
@@ -0,0 +1,219 @@
+// Token-bucket rate limits (per API key, per target service) and a per-service
+// cap on concurrent upstream requests with a bounded FIFO queue.
+
+export interface BucketConfig {
+  // Burst size
+  capacity: number;
+  // Sustained rate
+  refillPerSecond: number;
+}
+
+export interface RateLimitOptions {
+  key: BucketConfig;
+  service: BucketConfig;
+  maxConcurrent: number;
+  maxQueue: number;
+  queueTimeoutMs: number;
+}
+
+export function loadRateLimitOptions(): RateLimitOptions {
+  return {
+    key: {
+      capacity: Number(process.env.RATE_LIMIT_KEY_BURST) || 120,
+      refillPerSecond: Number(process.env.RATE_LIMIT_KEY_PER_SECOND) || 10,
+    },
+    service: {
+      capacity: Number(process.env.RATE_LIMIT_SERVICE_BURST) || 60,
+      refillPerSecond: Number(process.env.RATE_LIMIT_SERVICE_PER_SECOND) || 20,
+    },
+    maxConcurrent: Number(process.env.SERVICE_MAX_CONCURRENCY) || 10,
+    maxQueue: Number(process.env.SERVICE_MAX_QUEUE) || 100,
+    queueTimeoutMs: Number(process.env.SERVICE_QUEUE_TIMEOUT_MS) || 10_000,
+  };
+}
+
+export class RateLimitError extends Error {
+  constructor(
+    message: string,
+    public retryAfterSeconds: number,
+    public limit: "key" | "service" | "concurrency"
+  ) {
+    super(message);
+  }
+}
+
+interface Bucket {
+  config: BucketConfig;
+  tokens: number;
+  updatedAt: number;
+  allowed: number;
+  rejected: number;
+}
+
+export function createTokenBuckets(defaults: BucketConfig) {
+  const buckets = new Map<string, Bucket>();
+
+  function refill(bucket: Bucket, now: number) {
+    const elapsed = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(bucket.config.capacity, bucket.tokens + elapsed * bucket.config.refillPerSecond);
+    bucket.updatedAt = now;
+  }
+
+  function bucketFor(key: string, config: BucketConfig): Bucket {
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = { config, tokens: config.capacity, updatedAt: Date.now(), allowed: 0, rejected: 0 };
+      buckets.set(key, bucket);
+    }
+    bucket.config = config;
+    return bucket;
+  }
+
+  // Returns 0 when a token was taken, otherwise the seconds until one is available
+  function take(key: string, override?: Partial<BucketConfig>): number {
+    const bucket = bucketFor(key, { ...defaults, ...override });
+    refill(bucket, Date.now());
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      bucket.allowed++;
+      return 0;
+    }
+    bucket.rejected++;
+    return Math.max(1, Math.ceil((1 - bucket.tokens) / bucket.config.refillPerSecond));
+  }
+
+  function usage() {
+    const now = Date.now();
+    return Object.fromEntries(
+      [...buckets].map(([key, bucket]) => {
+        refill(bucket, now);
+        return [key, {
+          tokens: Math.floor(bucket.tokens),
+          capacity: bucket.config.capacity,
+          refillPerSecond: bucket.config.refillPerSecond,
+          allowed: bucket.allowed,
+          rejected: bucket.rejected,
+        }];
+      })
+    );
+  }
+
+  return { take, usage };
+}
+
+interface Lane {
+  active: number;
+  queue: Array<{ start: () => void; timer: NodeJS.Timeout }>;
+  rejected: number;
+}
+
+export function createConcurrencyLimiter(options: Pick<RateLimitOptions, "maxConcurrent" | "maxQueue" | "queueTimeoutMs">) {
+  const lanes = new Map<string, Lane>();
+
+  function laneFor(key: string): Lane {
+    let lane = lanes.get(key);
+    if (!lane) {
+      lane = { active: 0, queue: [], rejected: 0 };
+      lanes.set(key, lane);
+    }
+    return lane;
+  }
+
+  function acquire(key: string): Promise<void> {
+    const lane = laneFor(key);
+    if (lane.active < options.maxConcurrent) {
+      lane.active++;
+      return Promise.resolve();
+    }
+    if (lane.queue.length >= options.maxQueue) {
+      lane.rejected++;
+      return Promise.reject(new RateLimitError(`Too many queued requests for "${key}"`, 1, "concurrency"));
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter = {
+        start: () => {
+          clearTimeout(waiter.timer);
+          lane.active++;
+          resolve();
+        },
+        timer: setTimeout(() => {
+          lane.queue.splice(lane.queue.indexOf(waiter), 1);
+          lane.rejected++;
+          reject(new RateLimitError(
+            `Timed out waiting for a free upstream slot for "${key}"`,
+            Math.ceil(options.queueTimeoutMs / 1000),
+            "concurrency"
+          ));
+        }, options.queueTimeoutMs),
+      };
+      lane.queue.push(waiter);
+    });
+  }
+
+  function release(key: string) {
+    const lane = laneFor(key);
+    lane.active--;
+    lane.queue.shift()?.start();
+  }
+
+  async function run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    await acquire(key);
+    try {
+      return await fn();
+    } finally {
+      release(key);
+    }
+  }
+
+  function usage() {
+    return Object.fromEntries(
+      [...lanes].map(([key, lane]) => [key, {
+        inFlight: lane.active,
+        queued: lane.queue.length,
+        maxConcurrent: options.maxConcurrent,
+        rejected: lane.rejected,
+      }])
+    );
+  }
+
+  return { run, usage };
+}
+
+export function createRateLimiter(options: RateLimitOptions) {
+  const keyBuckets = createTokenBuckets(options.key);
+  const serviceBuckets = createTokenBuckets(options.service);
+  const concurrency = createConcurrencyLimiter(options);
+
+  function checkKey(apiKey: string, override?: Partial<BucketConfig>) {
+    const retryAfter = keyBuckets.take(apiKey, override);
+    if (retryAfter > 0) {
+      throw new RateLimitError(`Rate limit exceeded for API key "${apiKey}"`, retryAfter, "key");
+    }
+  }
+
+  // Token check for the target service, then a concurrency slot for the call
+  async function runForService<T>(service: string, fn: () => Promise<T>, override?: Partial<BucketConfig>): Promise<T> {
+    const retryAfter = serviceBuckets.take(service, override);
+    if (retryAfter > 0) {
+      throw new RateLimitError(`Rate limit exceeded for service "${service}"`, retryAfter, "service");
+    }
+    return concurrency.run(service, fn);
+  }
+
+  function usage() {
+    const buckets = serviceBuckets.usage();
+    const lanes = concurrency.usage();
+    const services = Object.fromEntries(
+      [...new Set([...Object.keys(buckets), ...Object.keys(lanes)])].map((name) => [
+        name,
+        { rate: buckets[name], concurrency: lanes[name] },
+      ])
+    );
+    return { keys: keyBuckets.usage(), services };
+  }
+
+  return { checkKey, runForService, usage };
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
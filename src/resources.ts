@@ -0,0 +1,187 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { SpecResult } from "./cache.js";
+import { ApiKeyIdentity, hasScope } from "./auth.js";
+import { listOperations, OpenApiSpec, summarizeEndpoints } from "./openapi.js";
+import { ServiceEntry } from "./services.js";
+
+// MCP resources: each service's spec (registry://services/{name}/openapi.json)
+// and a rendered doc per operation (registry://services/{name}/operations/{operationId}).
+// Sessions can subscribe to them and get resources/updated when a spec changes.
+// Both describe the API key's default environment of each service.
+
+interface ResourceRegistry {
+  getServices(): Record<string, ServiceEntry>;
+  fetchSpec(service: ServiceEntry): Promise<SpecResult>;
+}
+
+function specResourceUri(service: string): string {
+  return `registry://services/${encodeURIComponent(service)}/openapi.json`;
+}
+
+// Operations without an operationId are addressed as "METHOD /path"
+export function operationKey(method: string, path: string, operationId?: string): string {
+  return operationId || `${method.toUpperCase()} ${path}`;
+}
+
+export function operationResourceUri(service: string, key: string): string {
+  return `registry://services/${encodeURIComponent(service)}/operations/${encodeURIComponent(key)}`;
+}
+
+type EndpointSummary = ReturnType<typeof summarizeEndpoints>[number];
+type FieldList = NonNullable<Extract<EndpointSummary["body"], { fields?: unknown }>["fields"]>;
+
+function renderFields(fields: FieldList, indent = ""): string[] {
+  return fields.flatMap((field) => {
+    const notes = [field.type, field.required ? "required" : "optional", field.format].filter(Boolean).join(", ");
+    const line = `${indent}- \`${field.name}\` (${notes})${field.description ? ` — ${field.description}` : ""}`;
+    return [line, ...(field.fields ? renderFields(field.fields, `${indent}  `) : [])];
+  });
+}
+
+// Markdown doc for one operation, built from its `detail=full` summary
+function renderOperationDoc(service: ServiceEntry, endpoint: EndpointSummary): string {
+  const lines = [`# ${endpoint.method} ${endpoint.path}`, ""];
+  lines.push(`Service: \`${service.name}\` (${service.baseUrl})`);
+  if (endpoint.operationId) lines.push(`Operation ID: \`${endpoint.operationId}\``);
+  if (endpoint.summary) lines.push("", endpoint.summary);
+  if (endpoint.description) lines.push("", endpoint.description);
+
+  if (endpoint.params) {
+    lines.push("", "## Parameters", "");
+    for (const param of endpoint.params) {
+      lines.push(
+        `- \`${param.name}\` (${param.in}, ${param.type}, ${param.required ? "required" : "optional"})` +
+        (param.description ? ` — ${param.description}` : "")
+      );
+    }
+  }
+
+  if (endpoint.body && typeof endpoint.body === "object") {
+    lines.push("", `## Request body${endpoint.body.required ? " (required)" : ""}`, "");
+    if (endpoint.body.fields) lines.push(...renderFields(endpoint.body.fields));
+    else lines.push(`\`${endpoint.body.type}\``);
+  }
+
+  if (endpoint.response && typeof endpoint.response === "object") {
+    const { status, description, fields, type } = endpoint.response;
+    lines.push("", `## Response ${status}${description ? ` — ${description}` : ""}`);
+    if (fields) lines.push("", ...renderFields(fields));
+    else if (type) lines.push("", `\`${type}\``);
+  }
+
+  lines.push("", `Call it with the \`call_api\` tool: service \`${service.name}\`, method \`${endpoint.method}\`, path \`${endpoint.path}\`.`);
+  return lines.join("\n");
+}
+
+export function registerResources(server: McpServer, registry: ResourceRegistry, apiKey: ApiKeyIdentity) {
+  const subscriptions = new Set<string>();
+
+  function requireService(rawName: string | string[]): ServiceEntry {
+    if (!hasScope(apiKey, "read:specs")) {
+      throw new McpError(ErrorCode.InvalidRequest, `API key is missing the "read:specs" scope`);
+    }
+    const name = decodeURIComponent(String(rawName));
+    const service = registry.getServices()[name];
+    if (!service) throw new McpError(ErrorCode.InvalidParams, `Service "${name}" not found`);
+    return service;
+  }
+
+  async function requireSpec(service: ServiceEntry): Promise<OpenApiSpec> {
+    const result = await registry.fetchSpec(service);
+    if (!result.spec) {
+      throw new McpError(ErrorCode.InternalError, `Spec for "${service.name}" is unavailable: ${result.error}`);
+    }
+    return result.spec as OpenApiSpec;
+  }
+
+  server.registerResource(
+    "service-spec",
+    new ResourceTemplate("registry://services/{name}/openapi.json", {
+      list: async () => ({
+        resources: hasScope(apiKey, "read:specs")
+          ? Object.values(registry.getServices()).map((service) => ({
+            uri: specResourceUri(service.name),
+            name: `${service.name} OpenAPI spec`,
+            mimeType: "application/json",
+            description: service.description,
+          }))
+          : [],
+      }),
+    }),
+    { description: "Full OpenAPI spec of a registered service", mimeType: "application/json" },
+    async (uri, { name }) => {
+      const spec = await requireSpec(requireService(name));
+      return {
+        contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(spec, null, 2) }],
+      };
+    }
+  );
+
+  server.registerResource(
+    "operation-doc",
+    new ResourceTemplate("registry://services/{name}/operations/{operationId}", {
+      // Only services whose specs are already cached or reachable are listed
+      list: async () => {
+        if (!hasScope(apiKey, "read:specs")) return { resources: [] };
+        const perService = await Promise.all(
+          Object.values(registry.getServices()).map(async (service) => {
+            const result = await registry.fetchSpec(service);
+            if (!result.spec) return [];
+            return listOperations(result.spec as OpenApiSpec).map(({ method, path, details }) => ({
+              uri: operationResourceUri(service.name, operationKey(method, path, details.operationId)),
+              name: `${service.name}: ${method.toUpperCase()} ${path}`,
+              mimeType: "text/markdown",
+              description: details.summary,
+            }));
+          })
+        );
+        return { resources: perService.flat() };
+      },
+    }),
+    { description: "Rendered documentation of one API operation", mimeType: "text/markdown" },
+    async (uri, { name, operationId }) => {
+      const service = requireService(name);
+      const spec = await requireSpec(service);
+      const key = decodeURIComponent(String(operationId));
+      const endpoint = summarizeEndpoints(spec, "full").find(
+        (e) => operationKey(e.method, e.path, e.operationId) === key
+      );
+      if (!endpoint) {
+        throw new McpError(ErrorCode.InvalidParams, `Operation "${key}" not found in "${service.name}"`);
+      }
+      return {
+        contents: [{ uri: uri.href, mimeType: "text/markdown", text: renderOperationDoc(service, endpoint) }],
+      };
+    }
+  );
+
+  // McpServer has no subscription support of its own
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Tell the client that a service's spec (and so its operation docs) changed
+  async function notifySpecChanged(service: string) {
+    if (!server.isConnected()) return;
+    const prefix = `registry://services/${encodeURIComponent(service)}/`;
+    for (const uri of subscriptions) {
+      if (uri.startsWith(prefix)) await server.server.sendResourceUpdated({ uri });
+    }
+    // Operations may have been added or removed
+    server.sendResourceListChanged();
+  }
+
+  return { notifySpecChanged };
+}
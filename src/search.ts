@@ -0,0 +1,337 @@
+import { SpecResult } from "./cache.js";
+import { environmentKey } from "./environments.js";
+import { listOperations, OpenApiSpec, ParameterObject, resolveRef, SchemaObject } from "./openapi.js";
+import { ServiceEntry } from "./services.js";
+
+// In-memory BM25 index over every operation of every cached spec.
+//
+// Each operation is one document made of weighted fields (operationId,
+// summary, tags, parameter and schema property names, descriptions...).
+// A service is re-indexed whenever its spec hash changes.
+
+const FIELD_WEIGHTS = {
+  operationId: 3,
+  summary: 3,
+  path: 2,
+  tags: 2,
+  names: 2,
+  description: 1,
+  docs: 1,
+};
+
+type Field = keyof typeof FIELD_WEIGHTS;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Fuzzy matches (edit distance 1, or prefix) score less than exact ones
+const FUZZY_PENALTY = 0.5;
+
+export const DEFAULT_SEARCH_LIMIT = 10;
+export const MAX_SEARCH_LIMIT = 50;
+
+// How deep request/response schemas are walked for property names
+const MAX_SCHEMA_DEPTH = 4;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "get", "in", "into", "is", "it",
+  "of", "on", "or", "the", "this", "to", "with", "via", "all", "new", "my", "i", "want",
+]);
+
+export interface SearchResult {
+  service: string;
+  baseUrl: string;
+  method: string;
+  path: string;
+  operationId?: string;
+  summary: string;
+  score: number;
+  matchedTerms: string[];
+}
+
+interface Document {
+  service: string;
+  baseUrl: string;
+  method: string;
+  path: string;
+  operationId?: string;
+  summary: string;
+  // Weighted term frequencies
+  terms: Map<string, number>;
+  length: number;
+}
+
+function stem(token: string): string {
+  if (token.length > 5 && token.endsWith("ing")) return token.slice(0, -3);
+  if (token.length > 4 && token.endsWith("ies")) return `${token.slice(0, -3)}y`;
+  if (token.length > 4 && token.endsWith("es") && /(s|x|ch|sh)es$/.test(token)) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith("s") && !token.endsWith("ss")) return token.slice(0, -1);
+  if (token.length > 4 && token.endsWith("ed")) return token.slice(0, -2);
+  return token;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    // Split camelCase and PascalCase before lowercasing
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 1 && !STOPWORDS.has(t))
+    .map(stem);
+}
+
+// Levenshtein distance <= 1, plus adjacent transpositions
+function withinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    // Adjacent transposition ("emial" → "email") counts as one edit
+    if (a.length === b.length && a[i] === b[j + 1] && a[i + 1] === b[j]) {
+      i += 2;
+      j += 2;
+    } else if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+function collectSchemaText(
+  spec: OpenApiSpec,
+  schemaOrRef: SchemaObject | undefined,
+  out: { names: string[]; docs: string[] },
+  depth = 0,
+  seen: Set<string> = new Set()
+) {
+  if (!schemaOrRef || depth > MAX_SCHEMA_DEPTH) return;
+  if (schemaOrRef.$ref) {
+    if (seen.has(schemaOrRef.$ref)) return;
+    seen = new Set(seen).add(schemaOrRef.$ref);
+  }
+  const schema = resolveRef(spec, schemaOrRef);
+  if (!schema) return;
+
+  if (schema.description) out.docs.push(schema.description);
+  for (const [name, child] of Object.entries(schema.properties || {})) {
+    out.names.push(name);
+    collectSchemaText(spec, child, out, depth + 1, seen);
+  }
+  collectSchemaText(spec, schema.items, out, depth + 1, seen);
+  for (const sub of [...(schema.allOf || []), ...(schema.anyOf || []), ...(schema.oneOf || [])]) {
+    collectSchemaText(spec, sub, out, depth + 1, seen);
+  }
+}
+
+function buildDocuments(service: string, baseUrl: string, spec: OpenApiSpec): Document[] {
+  return listOperations(spec).map(({ method, path, details }) => {
+    const schemaText = { names: [] as string[], docs: [] as string[] };
+
+    for (const paramOrRef of details.parameters || []) {
+      const param = resolveRef<ParameterObject>(spec, paramOrRef);
+      if (!param?.name) continue;
+      schemaText.names.push(param.name);
+      if (param.description) schemaText.docs.push(param.description);
+    }
+
+    const requestBody = resolveRef(spec, details.requestBody);
+    for (const media of Object.values(requestBody?.content || {})) {
+      collectSchemaText(spec, media.schema, schemaText);
+    }
+    for (const [status, responseOrRef] of Object.entries(details.responses || {})) {
+      if (!/^2/.test(status)) continue;
+      const response = resolveRef(spec, responseOrRef);
+      for (const media of Object.values(response?.content || {})) {
+        collectSchemaText(spec, media.schema, schemaText);
+      }
+    }
+
+    const fields: Record<Field, string> = {
+      operationId: details.operationId || "",
+      summary: details.summary || "",
+      path: path.replace(/\{[^}]+\}/g, " "),
+      tags: (details.tags || []).join(" "),
+      names: schemaText.names.join(" "),
+      description: details.description || "",
+      docs: schemaText.docs.join(" "),
+    };
+
+    const terms = new Map<string, number>();
+    let length = 0;
+    for (const [field, text] of Object.entries(fields) as Array<[Field, string]>) {
+      const weight = FIELD_WEIGHTS[field];
+      for (const token of tokenize(text)) {
+        terms.set(token, (terms.get(token) || 0) + weight);
+        length += weight;
+      }
+    }
+
+    return {
+      service,
+      baseUrl,
+      method: method.toUpperCase(),
+      path,
+      operationId: details.operationId,
+      summary: details.summary || details.description || "",
+      terms,
+      length,
+    };
+  });
+}
+
+export function createSearchIndex() {
+  // Keyed by environmentKey, so each environment of a service is indexed separately
+  const byService = new Map<string, { service: string; hash?: string; baseUrl: string; documents: Document[] }>();
+  // Document frequency per term across the whole index
+  let documentFrequency = new Map<string, number>();
+  let documentCount = 0;
+  let averageLength = 0;
+
+  function rebuildStats() {
+    documentFrequency = new Map();
+    documentCount = 0;
+    let totalLength = 0;
+    for (const { documents } of byService.values()) {
+      for (const doc of documents) {
+        documentCount++;
+        totalLength += doc.length;
+        for (const term of doc.terms.keys()) {
+          documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+        }
+      }
+    }
+    averageLength = documentCount > 0 ? totalLength / documentCount : 0;
+  }
+
+  // Re-index a service when its spec (hash) or base URL changed
+  function sync(service: ServiceEntry, result: SpecResult) {
+    const key = environmentKey(service);
+    const current = byService.get(key);
+    if (!result.spec) return;
+    if (current && current.hash === result.hash && current.baseUrl === service.baseUrl) return;
+
+    byService.set(key, {
+      service: service.name,
+      hash: result.hash,
+      baseUrl: service.baseUrl,
+      documents: buildDocuments(service.name, service.baseUrl, result.spec as OpenApiSpec),
+    });
+    rebuildStats();
+  }
+
+  function prune(services: string[]) {
+    let changed = false;
+    for (const [key, { service }] of byService) {
+      if (!services.includes(service)) {
+        byService.delete(key);
+        changed = true;
+      }
+    }
+    if (changed) rebuildStats();
+  }
+
+  // Query terms → index terms they match, with a score multiplier
+  function expandTerms(query: string): Map<string, Array<{ term: string; boost: number }>> {
+    const expanded = new Map<string, Array<{ term: string; boost: number }>>();
+    for (const token of new Set(tokenize(query))) {
+      const matches: Array<{ term: string; boost: number }> = [];
+      if (documentFrequency.has(token)) matches.push({ term: token, boost: 1 });
+      for (const term of documentFrequency.keys()) {
+        if (term === token) continue;
+        const fuzzy =
+          (token.length >= 4 && withinOneEdit(token, term)) ||
+          (token.length >= 3 && term.startsWith(token));
+        if (fuzzy) matches.push({ term, boost: FUZZY_PENALTY });
+      }
+      expanded.set(token, matches);
+    }
+    return expanded;
+  }
+
+  // `services` holds environment keys ("name", "name@env")
+  function search(query: string, options: { limit: number; services?: string[] }): SearchResult[] {
+    const expanded = expandTerms(query);
+    const results: SearchResult[] = [];
+
+    for (const [key, { documents }] of byService) {
+      if (options.services && !options.services.includes(key)) continue;
+
+      for (const doc of documents) {
+        let score = 0;
+        const matchedTerms: string[] = [];
+        for (const [queryTerm, candidates] of expanded) {
+          let best = 0;
+          for (const { term, boost } of candidates) {
+            const tf = doc.terms.get(term);
+            if (!tf) continue;
+            const df = documentFrequency.get(term) || 0;
+            const idf = Math.log(1 + (documentCount - df + 0.5) / (df + 0.5));
+            const norm = tf + K1 * (1 - B + (B * doc.length) / (averageLength || 1));
+            best = Math.max(best, boost * idf * ((tf * (K1 + 1)) / norm));
+          }
+          if (best > 0) {
+            score += best;
+            matchedTerms.push(queryTerm);
+          }
+        }
+        if (score === 0) continue;
+
+        results.push({
+          service: doc.service,
+          baseUrl: doc.baseUrl,
+          method: doc.method,
+          path: doc.path,
+          operationId: doc.operationId,
+          summary: doc.summary,
+          score: Math.round(score * 1000) / 1000,
+          matchedTerms,
+        });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, options.limit);
+  }
+
+  return { sync, prune, search };
+}
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
+
+// Bring the index up to date with the (cached) specs of the given services,
+// then run the query against them
+export async function searchOperations(
+  registry: {
+    getServices(): Record<string, ServiceEntry>;
+    fetchSpec(service: ServiceEntry): Promise<SpecResult>;
+    searchIndex: SearchIndex;
+  },
+  services: Record<string, ServiceEntry>,
+  query: string,
+  limit: number
+) {
+  // Drop services that were removed from the registry
+  registry.searchIndex.prune(Object.keys(registry.getServices()));
+
+  const unavailable: Array<{ service: string; error?: string }> = [];
+  await Promise.all(
+    Object.values(services).map(async (service) => {
+      const result = await registry.fetchSpec(service);
+      if (!result.spec) unavailable.push({ service: service.name, error: result.error });
+      registry.searchIndex.sync(service, result);
+    })
+  );
+
+  const results = registry.searchIndex.search(query, { limit, services: Object.values(services).map(environmentKey) });
+  return { results, unavailable };
+}
@@ -0,0 +1,297 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync } from "fs";
+import { dirname, isAbsolute, resolve, sep } from "path";
+import { z } from "zod";
+import { SpecSource } from "./cache.js";
+
+// Another deployment of the same service (e.g. staging)
+export interface ServiceEnvironment {
+  baseUrl: string;
+  // Default to the service's own spec location and health path
+  specPath?: string;
+  specFile?: string;
+  healthPath?: string;
+}
+
+export interface ServiceEntry {
+  name: string;
+  baseUrl: string;
+  // Where the spec lives: a path on the service, or a local file. With
+  // neither set, the fallback paths are tried in order.
+  specPath?: string;
+  specFile?: string;
+  // Optional liveness endpoint; the spec URL is polled when unset
+  healthPath?: string;
+  description?: string;
+  owner?: string;
+  tags: string[];
+  // Overrides the default per-service token bucket for proxied calls
+  rateLimit?: { capacity?: number; refillPerSecond?: number };
+  // Named environments besides the default one, which the top-level fields
+  // describe and `defaultEnv` names ("default" when unset); see environments.ts
+  environments?: Record<string, ServiceEnvironment>;
+  defaultEnv?: string;
+  // Set on entries resolved to one environment
+  env?: string;
+  // The discovery provider that supplied the entry ("env", "file", "http", ...)
+  // or "runtime" for services registered through the API; only runtime
+  // entries can be changed through the API
+  source: string;
+  registeredAt?: string;
+  updatedAt?: string;
+}
+
+const DEFAULT_FALLBACK_PATHS = [
+  "/openapi.json",
+  "/openapi.yaml",
+  "/openapi.yml",
+  "/docs/openapi.json",
+  "/docs/openapi.yaml",
+  "/swagger.json",
+  "/swagger.yaml",
+  "/v3/api-docs",
+  "/api-docs",
+];
+
+const FALLBACK_PATHS = process.env.SPEC_FALLBACK_PATHS
+  ? process.env.SPEC_FALLBACK_PATHS.split(",").map((p) => p.trim()).filter(Boolean)
+  : DEFAULT_FALLBACK_PATHS;
+
+const STORE_PATH = process.env.SERVICE_STORE_PATH || "data/services.json";
+
+// Runtime-registered services may only point `specFile` inside this directory
+const SPEC_FILES_DIR = resolve(process.env.SPEC_FILES_DIR || "specs");
+
+export function isValidServiceUrl(url: string): boolean {
+  return /^https?:\/\//.test(url);
+}
+
+function isSafeSpecFile(file: string): boolean {
+  return !isAbsolute(file) && resolve(SPEC_FILES_DIR, file).startsWith(SPEC_FILES_DIR + sep);
+}
+
+// Discovery providers configured by the operator (env vars, a local file) may
+// point `specFile` anywhere; every other source is confined to SPEC_FILES_DIR
+export const TRUSTED_SPEC_FILE_SOURCES = ["env", "file"];
+
+function specFilePath(service: ServiceEntry, file: string): string {
+  return TRUSTED_SPEC_FILE_SOURCES.includes(service.source) ? resolve(file) : resolve(SPEC_FILES_DIR, file);
+}
+
+export function specSource(service: ServiceEntry): SpecSource {
+  if (service.specFile) {
+    const path = specFilePath(service, service.specFile);
+    return { key: `file:${path}`, locations: [path] };
+  }
+  if (service.specPath) {
+    const url = `${service.baseUrl}${service.specPath}`;
+    return { key: url, locations: [url] };
+  }
+  return { key: service.baseUrl, locations: FALLBACK_PATHS.map((path) => `${service.baseUrl}${path}`) };
+}
+
+// The configured spec location, if any (undefined = discovered from the fallback paths)
+export function specUrl(service: ServiceEntry): string | undefined {
+  if (service.specFile) return specFilePath(service, service.specFile);
+  return service.specPath && `${service.baseUrl}${service.specPath}`;
+}
+
+export const serviceNameSchema = z
+  .string()
+  .regex(/^[a-z0-9][a-z0-9-]*$/, "name must be lowercase letters, digits and dashes");
+
+const serviceFields = {
+  baseUrl: z.string().refine(isValidServiceUrl, "baseUrl must start with http:// or https://"),
+  specPath: z.string().startsWith("/").optional(),
+  healthPath: z.string().startsWith("/").optional(),
+  description: z.string().optional(),
+  owner: z.string().optional(),
+  tags: z.array(z.string()).default([]),
+  rateLimit: z.object({
+    capacity: z.number().positive().optional(),
+    refillPerSecond: z.number().positive().optional(),
+  }).optional(),
+};
+
+export const envNameSchema = z
+  .string()
+  .regex(/^[a-z0-9][a-z0-9-]*$/, "environment names must be lowercase letters, digits and dashes");
+
+const oneSpecLocation = (input: { specPath?: string; specFile?: string }) => !(input.specPath && input.specFile);
+
+// Environments share the rules of the service's own location fields
+function environmentFields(specFile: z.ZodOptional<z.ZodType<string>>) {
+  const environment = z.object({
+    baseUrl: serviceFields.baseUrl,
+    specPath: serviceFields.specPath,
+    specFile,
+    healthPath: serviceFields.healthPath,
+  }).refine(oneSpecLocation, "Set either specPath or specFile, not both");
+  return {
+    specFile,
+    environments: z.record(envNameSchema, environment).optional(),
+    defaultEnv: envNameSchema.optional(),
+  };
+}
+
+const distinctDefaultEnv = (input: { environments?: Record<string, unknown>; defaultEnv?: string }) =>
+  !input.environments?.[input.defaultEnv || "default"];
+const DEFAULT_ENV_CLASH = "environments must not repeat the default environment (set by the top-level fields)";
+
+// Body accepted by POST /services and PUT /services/:name
+export const serviceInputSchema = z.object({
+  ...serviceFields,
+  ...environmentFields(
+    z.string().refine(isSafeSpecFile, "specFile must be a relative path inside SPEC_FILES_DIR").optional()
+  ),
+})
+  .refine(oneSpecLocation, "Set either specPath or specFile, not both")
+  .refine(distinctDefaultEnv, DEFAULT_ENV_CLASH);
+
+// An entry from a discovery provider (env, config file, catalog). Its specFile
+// is only kept from TRUSTED_SPEC_FILE_SOURCES (see discovery.ts).
+export const discoveredServiceSchema = z.object({
+  name: serviceNameSchema,
+  ...serviceFields,
+  ...environmentFields(z.string().optional()),
+})
+  .refine(oneSpecLocation, "Set either specPath or specFile, not both")
+  .refine(distinctDefaultEnv, DEFAULT_ENV_CLASH);
+
+export type ServiceInput = z.infer<typeof serviceInputSchema>;
+export type DiscoveredService = z.infer<typeof discoveredServiceSchema> & { source: string };
+
+export interface DiscoveryChanges {
+  added: string[];
+  updated: string[];
+  removed: string[];
+}
+
+function loadStore(): Record<string, ServiceEntry> {
+  if (!existsSync(STORE_PATH)) return {};
+  try {
+    const stored = JSON.parse(readFileSync(STORE_PATH, "utf-8")) as {
+      services?: ServiceEntry[];
+    };
+    const entries: Record<string, ServiceEntry> = {};
+    for (const entry of stored.services || []) {
+      if (!isValidServiceUrl(entry.baseUrl)) {
+        console.warn(`Skipping stored service "${entry.name}": invalid URL "${entry.baseUrl}"`);
+        continue;
+      }
+      entries[entry.name] = { ...entry, source: "runtime" };
+    }
+    return entries;
+  } catch (err) {
+    console.error(`Failed to read service store "${STORE_PATH}":`, err);
+    return {};
+  }
+}
+
+function saveStore(entries: Record<string, ServiceEntry>) {
+  mkdirSync(dirname(STORE_PATH), { recursive: true });
+  // Write-then-rename so a crash never leaves a truncated store behind
+  const tmpPath = `${STORE_PATH}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify({ services: Object.values(entries) }, null, 2));
+  renameSync(tmpPath, STORE_PATH);
+}
+
+export class ServiceStoreError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export function createServiceStore() {
+  // Replaced wholesale by the discovery providers on every change
+  let discoveredServices: Record<string, ServiceEntry> = {};
+  const runtimeServices = loadStore();
+
+  // Discovered entries win over runtime entries with the same name
+  function all(): Record<string, ServiceEntry> {
+    return { ...runtimeServices, ...discoveredServices };
+  }
+
+  function get(name: string): ServiceEntry | undefined {
+    return discoveredServices[name] || runtimeServices[name];
+  }
+
+  function assertWritable(name: string) {
+    const discovered = discoveredServices[name];
+    if (discovered) {
+      throw new ServiceStoreError(
+        `Service "${name}" comes from the "${discovered.source}" discovery provider and is read-only`,
+        409
+      );
+    }
+  }
+
+  // Swap in the providers' current services; unchanged entries keep their timestamps
+  function replaceDiscovered(services: Record<string, DiscoveredService>): DiscoveryChanges {
+    const changes: DiscoveryChanges = { added: [], updated: [], removed: [] };
+    const now = new Date().toISOString();
+    const next: Record<string, ServiceEntry> = {};
+
+    for (const [name, service] of Object.entries(services)) {
+      const previous = discoveredServices[name];
+      if (previous) {
+        const { registeredAt: _registered, updatedAt: _updated, ...fields } = previous;
+        if (JSON.stringify(fields) === JSON.stringify(service)) {
+          next[name] = previous;
+          continue;
+        }
+      }
+      next[name] = { ...service, registeredAt: previous?.registeredAt || now, updatedAt: now };
+      if (previous || runtimeServices[name]) changes.updated.push(name);
+      else changes.added.push(name);
+      if (!previous && runtimeServices[name]) {
+        console.warn(`Stored service "${name}" is shadowed by the "${service.source}" discovery provider`);
+      }
+    }
+    for (const name of Object.keys(discoveredServices)) {
+      if (next[name]) continue;
+      // A shadowed runtime entry becomes visible again
+      if (runtimeServices[name]) changes.updated.push(name);
+      else changes.removed.push(name);
+    }
+
+    discoveredServices = next;
+    return changes;
+  }
+
+  function create(name: string, input: ServiceInput): ServiceEntry {
+    assertWritable(name);
+    if (runtimeServices[name]) {
+      throw new ServiceStoreError(`Service "${name}" already exists (use PUT to update)`, 409);
+    }
+    return put(name, input);
+  }
+
+  // Create or replace: services call this on every startup to self-register
+  function put(name: string, input: ServiceInput): ServiceEntry {
+    assertWritable(name);
+    const now = new Date().toISOString();
+    const entry: ServiceEntry = {
+      name,
+      ...input,
+      source: "runtime",
+      registeredAt: runtimeServices[name]?.registeredAt || now,
+      updatedAt: now,
+    };
+    runtimeServices[name] = entry;
+    saveStore(runtimeServices);
+    return entry;
+  }
+
+  function remove(name: string) {
+    assertWritable(name);
+    if (!runtimeServices[name]) {
+      throw new ServiceStoreError(`Service "${name}" not found`, 404);
+    }
+    delete runtimeServices[name];
+    saveStore(runtimeServices);
+  }
+
+  return { all, get, create, put, remove, replaceDiscovered };
+}
+
+export type ServiceStore = ReturnType<typeof createServiceStore>;
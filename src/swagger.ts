@@ -0,0 +1,253 @@
+import { HTTP_METHODS } from "./openapi.js";
+
+// Swagger 2.0 → OpenAPI 3.0 conversion, so every consumer (llm-context,
+// search, validation, merging) works on one model.
+//
+// Covers what the registry reads: definitions, parameters (body/formData
+// become requestBody), responses, consumes/produces, security schemes and
+// host/basePath → servers. `$ref`s into definitions and responses are rewritten.
+
+type Json = Record<string, unknown>;
+
+const DEFAULT_MEDIA_TYPE = "application/json";
+
+// Keywords that move from a Swagger parameter into its OpenAPI `schema`
+const SCHEMA_KEYWORDS = [
+  "type", "format", "items", "enum", "default", "minimum", "maximum", "exclusiveMinimum",
+  "exclusiveMaximum", "minLength", "maxLength", "pattern", "minItems", "maxItems", "uniqueItems", "multipleOf",
+];
+
+const OAUTH_FLOWS: Record<string, string> = {
+  implicit: "implicit",
+  password: "password",
+  application: "clientCredentials",
+  accessCode: "authorizationCode",
+};
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Swagger documents are read loosely: anything of the wrong shape counts as absent
+function asObject(value: unknown): Json {
+  return isObject(value) ? value : {};
+}
+
+function asObjects(value: unknown): Json[] {
+  return Array.isArray(value) ? value.filter(isObject) : [];
+}
+
+function asStrings(value: unknown): string[] | undefined {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : undefined;
+}
+
+export function isSwagger2(spec: unknown): boolean {
+  return isObject(spec) && spec.swagger === "2.0";
+}
+
+// Recursively rewrite `$ref`s and Swagger-only schema keywords
+function convertRefs(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(convertRefs);
+  if (!value || typeof value !== "object") return value;
+
+  const result: Json = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (key === "$ref" && typeof child === "string") {
+      result.$ref = child
+        .replace(/^#\/definitions\//, "#/components/schemas/")
+        .replace(/^#\/responses\//, "#/components/responses/");
+    } else if (key === "x-nullable") {
+      result.nullable = child;
+    } else if (key === "type" && child === "file") {
+      result.type = "string";
+      result.format = "binary";
+    } else if (key === "discriminator" && typeof child === "string") {
+      result.discriminator = { propertyName: child };
+    } else {
+      result[key] = convertRefs(child);
+    }
+  }
+  return result;
+}
+
+function parameterSchema(param: Json): Json {
+  const schema: Json = {};
+  for (const keyword of SCHEMA_KEYWORDS) {
+    if (param[keyword] !== undefined) schema[keyword] = param[keyword];
+  }
+  return convertRefs(schema) as Json;
+}
+
+// Swagger `collectionFormat` → OpenAPI `style` / `explode`
+function collectionStyle(param: Json): Json {
+  switch (param.collectionFormat) {
+    case "multi": return { style: "form", explode: true };
+    case "ssv": return { style: "spaceDelimited", explode: false };
+    case "pipes": return { style: "pipeDelimited", explode: false };
+    case "csv": return param.in === "query" ? { style: "form", explode: false } : { style: "simple" };
+    default: return param.type === "array" && param.in === "query" ? { style: "form", explode: false } : {};
+  }
+}
+
+function resolveParameter(swagger: Json, param: Json): Json {
+  const ref = typeof param.$ref === "string" ? param.$ref.match(/^#\/parameters\/(.+)$/) : null;
+  const target = ref && asObject(swagger.parameters)[ref[1]];
+  return isObject(target) ? target : param;
+}
+
+function convertOperation(swagger: Json, operation: Json, sharedParams: Json[]): Json {
+  const consumes = asStrings(operation.consumes) || asStrings(swagger.consumes) || [DEFAULT_MEDIA_TYPE];
+  const produces = asStrings(operation.produces) || asStrings(swagger.produces) || [DEFAULT_MEDIA_TYPE];
+  const { parameters, responses, consumes: _c, produces: _p, schemes: _s, ...rest } = operation;
+
+  // Operation-level parameters override path-level ones with the same name and location
+  const own = asObjects(parameters).map((p) => resolveParameter(swagger, p));
+  const inherited = sharedParams
+    .map((p) => resolveParameter(swagger, p))
+    .filter((p) => !own.some((o) => o.name === p.name && o.in === p.in));
+
+  const result: Json = convertRefs(rest) as Json;
+  const converted: Json[] = [];
+  const formFields: Json[] = [];
+
+  for (const param of [...inherited, ...own]) {
+    if (param.in === "body") {
+      const schema = convertRefs(param.schema || {});
+      result.requestBody = {
+        description: param.description,
+        required: param.required || undefined,
+        content: Object.fromEntries(consumes.map((type) => [type, { schema }])),
+      };
+    } else if (param.in === "formData") {
+      formFields.push(param);
+    } else {
+      converted.push({
+        name: param.name,
+        in: param.in,
+        description: param.description,
+        required: param.in === "path" ? true : param.required || undefined,
+        schema: parameterSchema(param),
+        ...collectionStyle(param),
+      });
+    }
+  }
+
+  if (formFields.length > 0) {
+    const mediaType = formFields.some((f) => f.type === "file") || consumes.includes("multipart/form-data")
+      ? "multipart/form-data"
+      : "application/x-www-form-urlencoded";
+    const required = formFields.filter((f) => f.required).map((f) => String(f.name));
+    result.requestBody = {
+      required: required.length > 0 || undefined,
+      content: {
+        [mediaType]: {
+          schema: {
+            type: "object",
+            properties: Object.fromEntries(formFields.map((f) => [
+              f.name,
+              { ...parameterSchema(f), ...(typeof f.description === "string" && { description: f.description }) },
+            ])),
+            ...(required.length > 0 && { required }),
+          },
+        },
+      },
+    };
+  }
+
+  if (converted.length > 0) result.parameters = converted;
+  result.responses = Object.fromEntries(
+    Object.entries(asObject(responses)).map(([status, response]) => [status, convertResponse(asObject(response), produces)])
+  );
+  return result;
+}
+
+function convertResponse(response: Json, produces: string[]): Json {
+  if (response.$ref) return convertRefs(response) as Json;
+  const { schema, headers, examples: _examples, ...rest } = response;
+  const result: Json = convertRefs(rest) as Json;
+  if (schema) {
+    const converted = convertRefs(schema);
+    result.content = Object.fromEntries(produces.map((type) => [type, { schema: converted }]));
+  }
+  if (headers) {
+    result.headers = Object.fromEntries(
+      Object.entries(asObject(headers)).map(([name, header]) => [
+        name,
+        { description: asObject(header).description, schema: parameterSchema(asObject(header)) },
+      ])
+    );
+  }
+  return result;
+}
+
+function convertSecurityScheme(scheme: Json): Json {
+  switch (scheme.type) {
+    case "basic":
+      return { type: "http", scheme: "basic", description: scheme.description };
+    case "apiKey":
+      return { type: "apiKey", name: scheme.name, in: scheme.in, description: scheme.description };
+    case "oauth2": {
+      const flow = String(scheme.flow);
+      const flowName = OAUTH_FLOWS[flow] || flow;
+      return {
+        type: "oauth2",
+        description: scheme.description,
+        flows: {
+          [flowName]: {
+            authorizationUrl: scheme.authorizationUrl,
+            tokenUrl: scheme.tokenUrl,
+            scopes: scheme.scopes || {},
+          },
+        },
+      };
+    }
+    default:
+      return scheme;
+  }
+}
+
+export function convertSwagger2(swagger: Json): Json {
+  const {
+    swagger: _version, host, basePath, schemes, consumes: _c, produces: _p, paths,
+    definitions, parameters: _params, responses, securityDefinitions, ...rest
+  } = swagger;
+
+  const produces = asStrings(swagger.produces) || [DEFAULT_MEDIA_TYPE];
+  const prefix = typeof basePath === "string" ? basePath : "";
+  const servers = typeof host === "string"
+    ? (asStrings(schemes) || ["https"]).map((scheme) => ({ url: `${scheme}://${host}${prefix}` }))
+    : prefix ? [{ url: prefix }] : undefined;
+
+  const convertedPaths: Json = {};
+  for (const [path, item] of Object.entries(asObject(paths))) {
+    const { parameters: shared, ...methods } = asObject(item);
+    const convertedItem: Json = {};
+    for (const [key, value] of Object.entries(methods)) {
+      convertedItem[key] = HTTP_METHODS.includes(key) || ["head", "options"].includes(key)
+        ? convertOperation(swagger, asObject(value), asObjects(shared))
+        : convertRefs(value);
+    }
+    convertedPaths[path] = convertedItem;
+  }
+
+  const components: Json = {};
+  if (definitions) components.schemas = convertRefs(definitions);
+  if (responses) {
+    components.responses = Object.fromEntries(
+      Object.entries(asObject(responses)).map(([name, response]) => [name, convertResponse(asObject(response), produces)])
+    );
+  }
+  if (securityDefinitions) {
+    components.securitySchemes = Object.fromEntries(
+      Object.entries(asObject(securityDefinitions)).map(([name, scheme]) => [name, convertSecurityScheme(asObject(scheme))])
+    );
+  }
+
+  return {
+    openapi: "3.0.3",
+    ...(convertRefs(rest) as Json),
+    ...(servers && { servers }),
+    paths: convertedPaths,
+    ...(Object.keys(components).length > 0 && { components }),
+  };
+}
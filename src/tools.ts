@@ -0,0 +1,215 @@
+import { ApiCallRequest } from "./proxy.js";
+import { listOperations, OpenApiSpec, ParameterObject, resolveRef, SchemaObject } from "./openapi.js";
+import { ServiceEntry } from "./services.js";
+
+// Opt-in generation of one MCP tool per OpenAPI operation, e.g.
+// `campaign_service__create_campaign`. Arguments are grouped by where they
+// go in the request: `path`, `query`, `headers` and `body`.
+
+export interface OperationToolOptions {
+  enabled: boolean;
+  // Allow lists (undefined = everything) and deny lists; deny wins
+  services?: string[];
+  excludeServices?: string[];
+  tags?: string[];
+  excludeTags?: string[];
+  methods?: string[];
+}
+
+function list(value: string | undefined, transform = (v: string) => v): string[] | undefined {
+  const items = value?.split(",").map((v) => transform(v.trim())).filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+}
+
+export function loadOperationToolOptions(): OperationToolOptions {
+  return {
+    enabled: process.env.MCP_OPERATION_TOOLS === "true",
+    services: list(process.env.MCP_OPERATION_TOOLS_SERVICES),
+    excludeServices: list(process.env.MCP_OPERATION_TOOLS_EXCLUDE_SERVICES),
+    tags: list(process.env.MCP_OPERATION_TOOLS_TAGS),
+    excludeTags: list(process.env.MCP_OPERATION_TOOLS_EXCLUDE_TAGS),
+    methods: list(process.env.MCP_OPERATION_TOOLS_METHODS, (v) => v.toUpperCase()),
+  };
+}
+
+// Most MCP clients cap tool names at 64 characters
+const MAX_TOOL_NAME_LENGTH = 64;
+
+// Deeper schemas are cut off to keep tool definitions small
+const MAX_INLINE_DEPTH = 8;
+
+type JsonSchema = Record<string, unknown>;
+
+export interface OperationTool {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+  service: string;
+  method: ApiCallRequest["method"];
+  path: string;
+}
+
+export interface OperationToolArgs {
+  path?: Record<string, unknown>;
+  query?: Record<string, unknown>;
+  headers?: Record<string, unknown>;
+  body?: unknown;
+}
+
+function snakeCase(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+function toolName(service: string, method: string, path: string, operationId?: string): string {
+  const operation = operationId ? snakeCase(operationId) : snakeCase(`${method} ${path.replace(/[{}]/g, "")}`);
+  return `${snakeCase(service)}__${operation}`.slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+// Self-contained JSON Schema: `$ref`s inlined (cycles cut to an open schema)
+// and OpenAPI 3.0 `nullable` turned into a JSON Schema type union
+function inlineSchema(
+  spec: OpenApiSpec,
+  schemaOrRef: SchemaObject | undefined,
+  depth = 0,
+  seen: Set<string> = new Set()
+): JsonSchema {
+  if (!schemaOrRef || depth > MAX_INLINE_DEPTH) return {};
+  if (schemaOrRef.$ref) {
+    if (seen.has(schemaOrRef.$ref)) return {};
+    seen = new Set(seen).add(schemaOrRef.$ref);
+  }
+  const { $ref: _ref, nullable, properties, items, additionalProperties, allOf, anyOf, oneOf, ...rest } =
+    resolveRef(spec, schemaOrRef);
+
+  const inline = (child: SchemaObject) => inlineSchema(spec, child, depth + 1, seen);
+  const result: JsonSchema = { ...rest };
+  if (properties) {
+    result.properties = Object.fromEntries(Object.entries(properties).map(([name, child]) => [name, inline(child)]));
+  }
+  if (items) result.items = inline(items);
+  if (additionalProperties !== undefined) {
+    result.additionalProperties = typeof additionalProperties === "boolean"
+      ? additionalProperties
+      : inline(additionalProperties);
+  }
+  if (allOf) result.allOf = allOf.map(inline);
+  if (anyOf) result.anyOf = anyOf.map(inline);
+  if (oneOf) result.oneOf = oneOf.map(inline);
+
+  if (nullable) {
+    if (typeof result.type === "string") result.type = [result.type, "null"];
+    else if (result.enum) result.enum = [...(result.enum as unknown[]), null];
+  }
+  return result;
+}
+
+export function matchesToolFilters(
+  options: OperationToolOptions,
+  service: string,
+  method: string,
+  tags: string[]
+): boolean {
+  if (options.excludeServices?.includes(service)) return false;
+  if (options.services && !options.services.includes(service)) return false;
+  if (options.methods && !options.methods.includes(method.toUpperCase())) return false;
+  if (options.excludeTags && tags.some((tag) => options.excludeTags!.includes(tag))) return false;
+  if (options.tags && !tags.some((tag) => options.tags!.includes(tag))) return false;
+  return true;
+}
+
+export function buildOperationTools(
+  service: ServiceEntry,
+  spec: OpenApiSpec,
+  options: OperationToolOptions
+): OperationTool[] {
+  const tools: OperationTool[] = [];
+  const names = new Set<string>();
+
+  for (const { method, path, details } of listOperations(spec)) {
+    if (!matchesToolFilters(options, service.name, method, details.tags || [])) continue;
+
+    const groups: Record<"path" | "query" | "header", { properties: JsonSchema; required: string[] }> = {
+      path: { properties: {}, required: [] },
+      query: { properties: {}, required: [] },
+      header: { properties: {}, required: [] },
+    };
+    for (const paramOrRef of details.parameters || []) {
+      const param = resolveRef<ParameterObject>(spec, paramOrRef);
+      const group = groups[param.in as keyof typeof groups];
+      if (!group || !param.name) continue;
+      group.properties[param.name] = {
+        ...inlineSchema(spec, param.schema),
+        ...(param.description && { description: param.description }),
+      };
+      if (param.required || param.in === "path") group.required.push(param.name);
+    }
+
+    const properties: JsonSchema = {};
+    const required: string[] = [];
+    for (const [key, group] of [["path", groups.path], ["query", groups.query], ["headers", groups.header]] as const) {
+      if (Object.keys(group.properties).length === 0) continue;
+      properties[key] = { type: "object", properties: group.properties, required: group.required };
+      if (group.required.length > 0) required.push(key);
+    }
+
+    const requestBody = resolveRef(spec, details.requestBody);
+    const bodySchema = requestBody?.content?.["application/json"]?.schema;
+    if (bodySchema) {
+      properties.body = inlineSchema(spec, bodySchema);
+      if (requestBody?.required) required.push("body");
+    }
+
+    // Deduplicate names that collide after snake-casing or truncation
+    const base = toolName(service.name, method, path, details.operationId);
+    let name = base;
+    for (let i = 2; names.has(name); i++) {
+      name = `${base.slice(0, MAX_TOOL_NAME_LENGTH - String(i).length - 1)}_${i}`;
+    }
+    names.add(name);
+
+    const summary = details.summary || details.description || "";
+    tools.push({
+      name,
+      description: `[${service.name}] ${method.toUpperCase()} ${path}${summary ? ` — ${summary}` : ""}`,
+      inputSchema: { type: "object", properties, required },
+      service: service.name,
+      method: method.toUpperCase() as ApiCallRequest["method"],
+      path,
+    });
+  }
+
+  return tools;
+}
+
+// Turn a generated tool's grouped arguments into a `call_api` request
+export function toApiCallRequest(tool: OperationTool, args: OperationToolArgs): ApiCallRequest {
+  const path = tool.path.replace(/\{([^}]+)\}/g, (match, name: string) => {
+    const value = args.path?.[name];
+    return value === undefined ? match : encodeURIComponent(String(value));
+  });
+
+  const query = new URLSearchParams();
+  for (const [name, value] of Object.entries(args.query || {})) {
+    if (value === undefined || value === null) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      query.append(name, typeof item === "object" ? JSON.stringify(item) : String(item));
+    }
+  }
+  const queryString = query.toString();
+
+  const headers = args.headers
+    ? Object.fromEntries(Object.entries(args.headers).map(([name, value]) => [name, String(value)]))
+    : undefined;
+
+  return {
+    service: tool.service,
+    method: tool.method,
+    path: queryString ? `${path}?${queryString}` : path,
+    headers,
+    body: args.body as Record<string, unknown> | undefined,
+  };
+}
@@ -0,0 +1,291 @@
+import {
+  listOperations,
+  OpenApiSpec,
+  Operation,
+  ParameterObject,
+  resolveRef,
+  SchemaObject,
+} from "./openapi.js";
+
+// Validates a proxied call against the service's OpenAPI operation before it
+// is sent: templated path matching, then path/query/body checks against the
+// operation's JSON Schemas (with local $ref resolution).
+
+export interface ValidationError {
+  location: string;
+  message: string;
+}
+
+export interface CallValidation {
+  operation?: Operation;
+  pathParams: Record<string, string>;
+  errors: ValidationError[];
+  closest?: { method: string; path: string; summary?: string };
+}
+
+// Nesting depth at which schema validation stops (guards recursive schemas)
+const MAX_DEPTH = 32;
+
+function templateSegments(template: string): string[] {
+  return template.split("/").filter(Boolean);
+}
+
+// Undefined for malformed percent-encoding (e.g. "%zz")
+function decodeSegment(segment: string): string | undefined {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return undefined;
+  }
+}
+
+function matchTemplate(template: string, path: string): Record<string, string> | undefined {
+  const expected = templateSegments(template);
+  const actual = templateSegments(path);
+  if (expected.length !== actual.length) return undefined;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < expected.length; i++) {
+    const param = expected[i].match(/^\{(.+)\}$/);
+    if (param) {
+      const value = decodeSegment(actual[i]);
+      if (value === undefined) return undefined;
+      params[param[1]] = value;
+    } else if (expected[i] !== actual[i]) return undefined;
+  }
+  return params;
+}
+
+function levenshtein(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+// Lower is closer: per-segment edit distance, templated segments match anything
+function pathDistance(template: string, path: string, sameMethod: boolean): number {
+  const expected = templateSegments(template);
+  const actual = templateSegments(path);
+  let distance = Math.abs(expected.length - actual.length);
+  for (let i = 0; i < Math.min(expected.length, actual.length); i++) {
+    if (/^\{.+\}$/.test(expected[i])) continue;
+    distance += levenshtein(expected[i], actual[i]) / Math.max(expected[i].length, actual[i].length);
+  }
+  return distance + (sameMethod ? 0 : 0.5);
+}
+
+export function findOperation(spec: OpenApiSpec, method: string, path: string) {
+  const lower = method.toLowerCase();
+  const operations = listOperations(spec);
+
+  // Literal segments beat templated ones, e.g. /users/me over /users/{id}
+  const candidates = operations
+    .filter((op) => op.method === lower)
+    .map((op) => ({ op, params: matchTemplate(op.path, path) }))
+    .filter((c) => c.params)
+    .sort((a, b) => Object.keys(a.params!).length - Object.keys(b.params!).length);
+
+  if (candidates.length > 0) {
+    return { operation: candidates[0].op, pathParams: candidates[0].params! };
+  }
+
+  const closest = operations
+    .map((op) => ({ op, distance: pathDistance(op.path, path, op.method === lower) }))
+    .sort((a, b) => a.distance - b.distance)[0]?.op;
+  return { closest };
+}
+
+function typeMatches(type: string, value: unknown): boolean {
+  switch (type) {
+    case "string": return typeof value === "string";
+    case "number": return typeof value === "number" && Number.isFinite(value);
+    case "integer": return typeof value === "number" && Number.isInteger(value);
+    case "boolean": return typeof value === "boolean";
+    case "array": return Array.isArray(value);
+    case "object": return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "null": return value === null;
+    default: return true;
+  }
+}
+
+export function validateSchema(
+  spec: OpenApiSpec,
+  schemaOrRef: SchemaObject | undefined,
+  value: unknown,
+  location: string,
+  errors: ValidationError[] = [],
+  depth = 0
+): ValidationError[] {
+  const schema = resolveRef(spec, schemaOrRef);
+  if (!schema || depth > MAX_DEPTH) return errors;
+
+  if (value === null && schema.nullable) return errors;
+
+  for (const sub of schema.allOf || []) validateSchema(spec, sub, value, location, errors, depth + 1);
+
+  for (const [keyword, variants] of [["anyOf", schema.anyOf], ["oneOf", schema.oneOf]] as const) {
+    if (!variants) continue;
+    const passing = variants.filter((v) => validateSchema(spec, v, value, location, [], depth + 1).length === 0);
+    if (passing.length === 0 || (keyword === "oneOf" && passing.length > 1)) {
+      errors.push({ location, message: `must match ${keyword === "oneOf" ? "exactly one" : "at least one"} of the allowed schemas` });
+    }
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => typeMatches(t, value))) {
+      errors.push({ location, message: `must be ${types.join(" or ")}` });
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((v) => JSON.stringify(v) === JSON.stringify(value))) {
+    errors.push({ location, message: `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}` });
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ location, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ location, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern) {
+      try {
+        if (!new RegExp(schema.pattern, "u").test(value)) {
+          errors.push({ location, message: `must match pattern ${schema.pattern}` });
+        }
+      } catch {
+        // Patterns the JS engine can't compile are not enforced
+      }
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ location, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ location, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ location, message: `must have at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ location, message: `must have at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      value.forEach((item, i) => validateSchema(spec, schema.items, item, `${location}[${i}]`, errors, depth + 1));
+    }
+  }
+
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+    for (const name of schema.required || []) {
+      if (object[name] === undefined) errors.push({ location: `${location}.${name}`, message: "is required" });
+    }
+    for (const [name, child] of Object.entries(object)) {
+      if (properties[name]) {
+        validateSchema(spec, properties[name], child, `${location}.${name}`, errors, depth + 1);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ location: `${location}.${name}`, message: "is not an allowed property" });
+      } else if (typeof schema.additionalProperties === "object") {
+        validateSchema(spec, schema.additionalProperties, child, `${location}.${name}`, errors, depth + 1);
+      }
+    }
+  }
+
+  return errors;
+}
+
+// Path and query values arrive as strings; coerce them to the schema's
+// primitive type before validating
+function coerceParam(spec: OpenApiSpec, schemaOrRef: SchemaObject | undefined, raw: string | string[]): unknown {
+  const schema = resolveRef(spec, schemaOrRef);
+  const type = Array.isArray(schema?.type) ? schema?.type[0] : schema?.type;
+  if (type === "array") {
+    const items = Array.isArray(raw) ? raw : raw.split(",");
+    return items.map((item) => coerceParam(spec, schema?.items, item));
+  }
+  const value = Array.isArray(raw) ? raw[raw.length - 1] : raw;
+  if ((type === "integer" || type === "number") && value.trim() !== "" && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (type === "boolean" && (value === "true" || value === "false")) return value === "true";
+  return value;
+}
+
+export function validateCall(
+  spec: OpenApiSpec,
+  request: { method: string; path: string; body?: unknown }
+): CallValidation {
+  const [pathname, search = ""] = request.path.split("?");
+  const malformed = templateSegments(pathname).find((segment) => decodeSegment(segment) === undefined);
+  if (malformed !== undefined) {
+    return {
+      pathParams: {},
+      errors: [{ location: "path", message: `Path segment "${malformed}" is not valid percent-encoding` }],
+    };
+  }
+  const match = findOperation(spec, request.method, pathname);
+
+  if (!match.operation) {
+    const closest = match.closest;
+    return {
+      pathParams: {},
+      errors: [{
+        location: "path",
+        message: `No documented operation matches ${request.method.toUpperCase()} ${pathname}`,
+      }],
+      closest: closest && {
+        method: closest.method.toUpperCase(),
+        path: closest.path,
+        summary: closest.details.summary,
+      },
+    };
+  }
+
+  const { operation, pathParams } = match;
+  const errors: ValidationError[] = [];
+
+  const query: Record<string, string | string[]> = {};
+  for (const [key, value] of new URLSearchParams(search)) {
+    const existing = query[key];
+    query[key] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+  }
+
+  for (const paramOrRef of operation.details.parameters || []) {
+    const param = resolveRef<ParameterObject>(spec, paramOrRef);
+    if (param.in !== "path" && param.in !== "query") continue;
+
+    const raw = param.in === "path" ? pathParams[param.name] : query[param.name];
+    const location = `${param.in}.${param.name}`;
+    if (raw === undefined) {
+      if (param.required || param.in === "path") errors.push({ location, message: "is required" });
+      continue;
+    }
+    validateSchema(spec, param.schema, coerceParam(spec, param.schema, raw), location, errors);
+  }
+
+  const requestBody = resolveRef(spec, operation.details.requestBody);
+  const bodySchema = requestBody?.content?.["application/json"]?.schema;
+  if (request.body === undefined) {
+    if (requestBody?.required) errors.push({ location: "body", message: "is required" });
+  } else if (bodySchema) {
+    validateSchema(spec, bodySchema, request.body, "body", errors);
+  }
+
+  return { operation, pathParams, errors };
+}
@@ -0,0 +1,234 @@
+import { z } from "zod";
+import { ApiCaller, ApiCallRequest, apiCallShape, callApi, ProxyRegistry } from "./proxy.js";
+
+// Multi-step workflows (the `run_workflow` MCP tool and POST /workflows/run):
+// ordered call_api steps that can use the workflow input and earlier
+// responses, with conditions, retries and stop-on-error.
+//
+// References look like `{{ $.steps.brand.data.id }}` or `{{ $.input.items[0]['first name'] }}`.
+// A string that is only a reference becomes the referenced value (any type);
+// inside a longer string the value is interpolated (URL-encoded in `path`).
+// Conditions are a reference (truthy), `!<reference>`, or
+// `<reference> <op> <value>` with ==, !=, >, >=, <, <= and a JSON or reference value.
+
+export const MAX_WORKFLOW_STEPS = 20;
+const MAX_RETRIES = 5;
+const RETRY_BASE_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10_000;
+
+const workflowStepSchema = z.object({
+  id: z.string().regex(/^[A-Za-z_][\w-]*$/).optional()
+    .describe("Name for referencing this step's response as $.steps.<id> (default: step1, step2, ...)"),
+  ...apiCallShape,
+  if: z.string().optional()
+    .describe("Only run the step when this holds, e.g. '$.steps.brand.ok' or '$.steps.brand.data.status == \"active\"'"),
+  retries: z.number().int().min(0).max(MAX_RETRIES).optional()
+    .describe("Retries after network errors, rate limits and 5xx responses, with exponential backoff (default 0)"),
+  continueOnError: z.boolean().optional().describe("Keep going when this step fails, even if stopOnError is set"),
+});
+
+export const workflowShape = {
+  steps: z.array(workflowStepSchema).min(1).max(MAX_WORKFLOW_STEPS)
+    .describe("Calls to make in order. path, body and headers may contain {{ $.steps.<id>.data... }} or {{ $.input... }} references"),
+  input: z.record(z.string(), z.unknown()).optional().describe("Values steps can reference as $.input.<name>"),
+  stopOnError: z.boolean().optional().describe("Stop at the first failed step (default true)"),
+};
+
+export const workflowSchema = z.object(workflowShape);
+export type Workflow = z.infer<typeof workflowSchema>;
+
+// A bad reference or condition; fails the step without calling anything
+class WorkflowError extends Error {}
+
+interface StepState {
+  status?: number;
+  ok?: boolean;
+  data?: unknown;
+  error?: unknown;
+  skipped?: boolean;
+}
+
+interface WorkflowContext {
+  input: Record<string, unknown>;
+  steps: Record<string, StepState>;
+}
+
+export interface StepTrace {
+  id: string;
+  status: "succeeded" | "failed" | "skipped" | "not_run";
+  attempts?: number;
+  request?: { service: string; env?: string; method: string; path: string };
+  result?: Record<string, unknown>;
+  error?: string;
+  durationMs?: number;
+}
+
+const PATH_TOKEN = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[(?:'([^']*)'|"([^"]*)")\]/y;
+
+function lookup(expression: string, context: WorkflowContext): { found: boolean; value?: unknown } {
+  if (!expression.startsWith("$")) throw new WorkflowError(`Invalid reference "${expression}": must start with $`);
+  let value: unknown = context;
+  PATH_TOKEN.lastIndex = 1;
+  while (PATH_TOKEN.lastIndex < expression.length) {
+    const start = PATH_TOKEN.lastIndex;
+    const match = PATH_TOKEN.exec(expression);
+    if (!match) throw new WorkflowError(`Invalid reference "${expression}" at "${expression.slice(start)}"`);
+    const key = match[1] ?? match[2] ?? match[3] ?? match[4];
+    if (value === null || typeof value !== "object" || !Object.hasOwn(value, key)) return { found: false };
+    value = (value as Record<string, unknown>)[key];
+  }
+  return { found: true, value };
+}
+
+function reference(expression: string, context: WorkflowContext): unknown {
+  const { found, value } = lookup(expression, context);
+  if (!found) throw new WorkflowError(`Reference ${expression} is not defined`);
+  return value;
+}
+
+const TEMPLATE = /\{\{\s*(\$[^}]*?)\s*\}\}/g;
+const WHOLE_TEMPLATE = /^\{\{\s*(\$[^}]*?)\s*\}\}$/;
+
+function resolveTemplates(value: unknown, context: WorkflowContext, encode = false): unknown {
+  if (typeof value === "string") {
+    const whole = value.match(WHOLE_TEMPLATE);
+    if (whole && !encode) return reference(whole[1], context);
+    return value.replace(TEMPLATE, (_, expression: string) => {
+      const resolved = reference(expression, context);
+      const text = typeof resolved === "object" && resolved !== null ? JSON.stringify(resolved) : String(resolved);
+      return encode ? encodeURIComponent(text) : text;
+    });
+  }
+  if (Array.isArray(value)) return value.map((item) => resolveTemplates(item, context));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveTemplates(item, context)]));
+  }
+  return value;
+}
+
+const CONDITION = /^(!?)\s*(\$\S*?)\s*(?:(==|!=|>=|<=|>|<)\s*(.+?))?$/;
+
+function evaluateCondition(condition: string, context: WorkflowContext): boolean {
+  const match = condition.trim().match(CONDITION);
+  if (!match) throw new WorkflowError(`Invalid condition "${condition}"`);
+  const [, negate, expression, operator, rawOperand] = match;
+  const left = lookup(expression, context).value;
+
+  if (!operator) return negate ? !left : !!left;
+
+  let right: unknown;
+  if (rawOperand.startsWith("$")) {
+    right = lookup(rawOperand, context).value;
+  } else {
+    try {
+      right = JSON.parse(rawOperand);
+    } catch {
+      right = rawOperand;
+    }
+  }
+
+  let result: boolean;
+  switch (operator) {
+    case "==": result = JSON.stringify(left) === JSON.stringify(right); break;
+    case "!=": result = JSON.stringify(left) !== JSON.stringify(right); break;
+    default: {
+      const comparable = (typeof left === "number" && typeof right === "number") ||
+        (typeof left === "string" && typeof right === "string");
+      if (!comparable) return false;
+      const [a, b] = [left as number | string, right as number | string];
+      result = operator === ">" ? a > b : operator === ">=" ? a >= b : operator === "<" ? a < b : a <= b;
+    }
+  }
+  return negate ? !result : result;
+}
+
+// Network errors, timeouts, rate limits and 5xx are worth retrying; spec
+// validation errors, unknown services and other 4xx responses are not
+function isRetryable(result: Record<string, unknown>): boolean {
+  if (typeof result.status === "number") return result.status === 429 || result.status >= 500;
+  if (result.code === "rate_limited") return true;
+  return typeof result.error === "string" && !("validationErrors" in result) &&
+    !("available" in result) && !("detail" in result);
+}
+
+function retryDelay(result: Record<string, unknown>, attempt: number): number {
+  const backoff = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+  const retryAfter = typeof result.retryAfterSeconds === "number" ? result.retryAfterSeconds * 1000 : 0;
+  return Math.min(Math.max(backoff, retryAfter), MAX_RETRY_DELAY_MS);
+}
+
+export async function runWorkflow(registry: ProxyRegistry, workflow: Workflow, caller: ApiCaller) {
+  const started = Date.now();
+  const ids = workflow.steps.map((step, i) => step.id ?? `step${i + 1}`);
+  const duplicate = ids.find((id, i) => ids.indexOf(id) !== i);
+  if (duplicate) return { ok: false, error: `Step id "${duplicate}" is used more than once`, steps: [] };
+
+  const stopOnError = workflow.stopOnError ?? true;
+  const context: WorkflowContext = { input: workflow.input ?? {}, steps: {} };
+  const trace: StepTrace[] = [];
+  let failed = false;
+  let stoppedAt: string | undefined;
+
+  for (const [i, step] of workflow.steps.entries()) {
+    const id = ids[i];
+    if (stoppedAt) {
+      trace.push({ id, status: "not_run" });
+      continue;
+    }
+
+    const stepStarted = Date.now();
+    let entry: StepTrace;
+    try {
+      if (step.if !== undefined && !evaluateCondition(step.if, context)) {
+        context.steps[id] = { skipped: true };
+        trace.push({ id, status: "skipped" });
+        continue;
+      }
+
+      const request: ApiCallRequest = {
+        service: step.service,
+        env: step.env,
+        method: step.method,
+        path: resolveTemplates(step.path, context, true) as string,
+        body: resolveTemplates(step.body, context) as Record<string, unknown> | undefined,
+        headers: step.headers && Object.fromEntries(
+          Object.entries(resolveTemplates(step.headers, context) as Record<string, unknown>)
+            .map(([name, value]) => [name, String(value)])
+        ),
+        strict: step.strict,
+        mock: step.mock,
+      };
+
+      let result: Record<string, unknown>;
+      let attempts = 0;
+      for (;;) {
+        attempts++;
+        result = await callApi(registry, request, caller);
+        if (attempts > (step.retries ?? 0) || !isRetryable(result)) break;
+        await new Promise((resolve) => setTimeout(resolve, retryDelay(result, attempts)));
+      }
+
+      const ok = result.error === undefined && result.ok !== false;
+      context.steps[id] = { status: result.status as number | undefined, ok, data: result.data, error: result.error };
+      entry = {
+        id,
+        status: ok ? "succeeded" : "failed",
+        attempts,
+        request: { service: request.service, env: request.env, method: request.method, path: request.path },
+        result,
+      };
+    } catch (err) {
+      if (!(err instanceof WorkflowError)) throw err;
+      context.steps[id] = { ok: false, error: err.message };
+      entry = { id, status: "failed", error: err.message };
+    }
+
+    trace.push({ ...entry, durationMs: Date.now() - stepStarted });
+    if (entry.status === "failed") {
+      failed = true;
+      if (stopOnError && !step.continueOnError) stoppedAt = id;
+    }
+  }
+
+  return { ok: !failed, stoppedAt, durationMs: Date.now() - started, steps: trace };
+}
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { AuditLogOptions, AuditRecord, createAuditLog } from "../src/audit.js";
+import { tempDir } from "./helpers.js";
+
+let temp: ReturnType<typeof tempDir>;
+beforeEach(() => {
+  temp = tempDir("audit-test");
+});
+afterEach(() => temp.remove());
+
+function auditLog(options: Partial<AuditLogOptions> = {}) {
+  return createAuditLog({ dir: temp.dir, retentionDays: 30, maxBytes: 1_000_000, redactFields: ["password"], ...options });
+}
+
+function entry(overrides: Partial<AuditRecord>): AuditRecord {
+  return {
+    timestamp: new Date().toISOString(),
+    apiKey: "alice",
+    service: "orders",
+    method: "GET",
+    path: "/orders",
+    status: 200,
+    latencyMs: 5,
+    ...overrides,
+  };
+}
+
+// Day file with the given records, written directly as an older log would be
+function writeDay(day: string, records: AuditRecord[]) {
+  writeFileSync(join(temp.dir, `audit-${day}.jsonl`), records.map((r) => `${JSON.stringify(r)}\n`).join(""));
+}
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 86_400_000).toISOString();
+
+describe("audit log", () => {
+  it("returns records newest first, across day files", async () => {
+    const audit = auditLog();
+    const yesterday = daysAgo(1);
+    writeDay(yesterday.slice(0, 10), [entry({ timestamp: yesterday, path: "/old" })]);
+    audit.record(entry({ path: "/first" }));
+    audit.record(entry({ path: "/second" }));
+
+    const records = await audit.query({});
+    assert.deepEqual(records.map((r) => r.path), ["/second", "/first", "/old"]);
+  });
+
+  it("filters by service, key, status range, time and access", async () => {
+    const audit = auditLog();
+    const now = Date.now();
+    const at = (minutesAgo: number) => new Date(now - minutesAgo * 60_000).toISOString();
+    audit.record(entry({ timestamp: at(30), path: "/a", status: 200 }));
+    audit.record(entry({ timestamp: at(20), path: "/b", status: 404, apiKey: "bob" }));
+    audit.record(entry({ timestamp: at(10), path: "/c", status: 500, service: "billing" }));
+    audit.record(entry({ timestamp: at(5), path: "/d", status: undefined, error: "ECONNREFUSED" }));
+
+    const paths = async (filter: Parameters<typeof audit.query>[0]) => (await audit.query(filter)).map((r) => r.path);
+    assert.deepEqual(await paths({ service: "orders" }), ["/d", "/b", "/a"]);
+    assert.deepEqual(await paths({ apiKey: "bob" }), ["/b"]);
+    assert.deepEqual(await paths({ statusMin: 400, statusMax: 499 }), ["/b"]);
+    // A call without a response counts as status 0
+    assert.deepEqual(await paths({ statusMax: 0 }), ["/d"]);
+    assert.deepEqual(await paths({ from: new Date(now - 25 * 60_000), to: new Date(now - 8 * 60_000) }), ["/c", "/b"]);
+    assert.deepEqual(await paths({ canAccess: (service) => service !== "orders" }), ["/c"]);
+    assert.deepEqual(await paths({ limit: 2 }), ["/d", "/c"]);
+  });
+
+  it("redacts configured body fields at any depth before writing", async () => {
+    const audit = auditLog();
+    audit.record(entry({ method: "POST", requestBody: { user: { name: "a", Password: "hunter2" }, items: [{ password: "x" }] } }));
+
+    const [file] = readdirSync(temp.dir);
+    assert.doesNotMatch(readFileSync(join(temp.dir, file), "utf-8"), /hunter2/);
+    const [record] = await audit.query({});
+    assert.deepEqual(record.requestBody, { user: { name: "a", Password: "[REDACTED]" }, items: [{ password: "[REDACTED]" }] });
+  });
+
+  it("deletes day files past the retention period", async () => {
+    const old = daysAgo(10).slice(0, 10);
+    const recent = daysAgo(2).slice(0, 10);
+    writeDay(old, [entry({ timestamp: daysAgo(10) })]);
+    writeDay(recent, [entry({ timestamp: daysAgo(2) })]);
+
+    auditLog({ retentionDays: 7 }).record(entry({}));
+
+    assert.equal(existsSync(join(temp.dir, `audit-${old}.jsonl`)), false);
+    assert.equal(existsSync(join(temp.dir, `audit-${recent}.jsonl`)), true);
+  });
+
+  it("deletes the oldest day files while the log is over its size limit, but never today's", async () => {
+    const big = [entry({ path: `/${"x".repeat(400)}` })];
+    const days = [3, 2, 1].map((n) => daysAgo(n).slice(0, 10));
+    for (const day of days) writeDay(day, big);
+
+    auditLog({ maxBytes: 1_000 }).record(entry({}));
+
+    const left = readdirSync(temp.dir).sort();
+    assert.deepEqual(left, [`audit-${days[2]}.jsonl`, `audit-${new Date().toISOString().slice(0, 10)}.jsonl`]);
+
+    auditLog({ maxBytes: 10 }).record(entry({}));
+    assert.deepEqual(readdirSync(temp.dir), [`audit-${new Date().toISOString().slice(0, 10)}.jsonl`]);
+  });
+});
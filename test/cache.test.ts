@@ -0,0 +1,138 @@
+import { after, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createSpecCache, hashSpec, SpecSource } from "../src/cache.js";
+import { json, startServer } from "./helpers.js";
+
+const SPEC_V1 = { openapi: "3.0.0", info: { title: "Orders", version: "1" }, paths: {} };
+const SPEC_V2 = { openapi: "3.0.0", info: { title: "Orders", version: "2" }, paths: {} };
+
+// Upstream serving the current spec with an ETag and answering If-None-Match
+let spec: unknown = SPEC_V1;
+let up = true;
+const requests: Array<{ path: string; ifNoneMatch?: string }> = [];
+
+const upstream = await startServer((req, res) => {
+  requests.push({ path: req.url!, ifNoneMatch: req.headers["if-none-match"] });
+  if (!up) return json(res, 503, { error: "down" });
+  if (req.url !== "/openapi.json") return json(res, 404, { error: "not found" });
+  const etag = `"${hashSpec(spec).slice(0, 8)}"`;
+  if (req.headers["if-none-match"] === etag) {
+    res.writeHead(304, { ETag: etag });
+    return res.end();
+  }
+  json(res, 200, spec, { ETag: etag });
+});
+after(() => upstream.close());
+
+const source = (locations = [`${upstream.url}/openapi.json`]): SpecSource => ({ key: "orders", locations });
+
+beforeEach(() => {
+  spec = SPEC_V1;
+  up = true;
+  requests.length = 0;
+});
+
+describe("spec cache", () => {
+  it("serves a fresh entry from the cache without going upstream", async () => {
+    const cache = createSpecCache({ ttlMs: 60_000, staleWhileRevalidateMs: 0, timeoutMs: 1_000 });
+    const first = await cache.get(source());
+    const second = await cache.get(source());
+
+    assert.deepEqual(first.spec, SPEC_V1);
+    assert.equal(second.stale, undefined);
+    assert.equal(requests.length, 1);
+  });
+
+  it("serves a stale entry at once and revalidates in the background", async () => {
+    const cache = createSpecCache({ ttlMs: 0, staleWhileRevalidateMs: 60_000, timeoutMs: 1_000 });
+    await cache.get(source());
+    spec = SPEC_V2;
+
+    const stale = await cache.get(source());
+    assert.equal(stale.stale, true);
+    assert.deepEqual(stale.spec, SPEC_V1);
+
+    const revalidated = await cache.refresh(source());
+    assert.deepEqual(revalidated.spec, SPEC_V2);
+  });
+
+  it("revalidates with the upstream's ETag and keeps the entry on 304", async () => {
+    const cache = createSpecCache({ ttlMs: 0, staleWhileRevalidateMs: 0, timeoutMs: 1_000 });
+    const updates: string[] = [];
+    cache.onUpdate((_key, _spec, hash) => updates.push(hash));
+
+    const first = await cache.get(source());
+    const second = await cache.get(source());
+
+    assert.equal(requests.length, 2);
+    assert.equal(requests[1].ifNoneMatch, `"${first.hash!.slice(0, 8)}"`);
+    assert.equal(second.hash, first.hash);
+    assert.deepEqual(second.spec, SPEC_V1);
+    // A 304 is not a change
+    assert.equal(updates.length, 1);
+  });
+
+  it("reports changed content to update listeners", async () => {
+    const cache = createSpecCache({ ttlMs: 0, staleWhileRevalidateMs: 0, timeoutMs: 1_000 });
+    const updates: unknown[] = [];
+    cache.onUpdate((_key, updated) => updates.push(updated));
+
+    await cache.get(source());
+    spec = SPEC_V2;
+    await cache.get(source());
+
+    assert.deepEqual(updates, [SPEC_V1, SPEC_V2]);
+  });
+
+  it("falls back to the last good spec, marked stale, when the upstream is down", async () => {
+    const cache = createSpecCache({ ttlMs: 0, staleWhileRevalidateMs: 0, timeoutMs: 1_000 });
+    const errors: string[] = [];
+    cache.onError((_key, error) => errors.push(error));
+
+    await cache.get(source());
+    up = false;
+    const result = await cache.get(source());
+
+    assert.deepEqual(result.spec, SPEC_V1);
+    assert.equal(result.stale, true);
+    assert.match(result.error!, /503/);
+    assert.equal(errors.length, 1);
+  });
+
+  it("returns no spec when the first fetch fails", async () => {
+    const cache = createSpecCache({ ttlMs: 60_000, staleWhileRevalidateMs: 0, timeoutMs: 1_000 });
+    up = false;
+    const result = await cache.get(source());
+
+    assert.equal(result.spec, null);
+    assert.ok(result.error);
+    assert.equal(cache.peek("orders"), undefined);
+  });
+
+  it("tries the next location when one has no spec and remembers the one that worked", async () => {
+    const cache = createSpecCache({ ttlMs: 0, staleWhileRevalidateMs: 0, timeoutMs: 1_000 });
+    const locations = [`${upstream.url}/swagger.json`, `${upstream.url}/openapi.json`];
+
+    const first = await cache.get(source(locations));
+    assert.equal(first.location, `${upstream.url}/openapi.json`);
+
+    requests.length = 0;
+    await cache.get(source(locations));
+    assert.deepEqual(requests.map((r) => r.path), ["/openapi.json"]);
+  });
+
+  it("collapses concurrent fetches of one source into one upstream request", async () => {
+    const cache = createSpecCache({ ttlMs: 60_000, staleWhileRevalidateMs: 0, timeoutMs: 1_000 });
+    const results = await Promise.all([cache.get(source()), cache.get(source()), cache.get(source())]);
+
+    assert.equal(requests.length, 1);
+    assert.ok(results.every((r) => r.hash === results[0].hash));
+  });
+});
+
+describe("hashSpec", () => {
+  it("ignores key order", () => {
+    assert.equal(hashSpec({ a: 1, b: { c: 2, d: 3 } }), hashSpec({ b: { d: 3, c: 2 }, a: 1 }));
+    assert.notEqual(hashSpec({ a: 1 }), hashSpec({ a: 2 }));
+  });
+});
@@ -0,0 +1,152 @@
+import { after, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { writeFileSync } from "fs";
+import { join } from "path";
+import { createAuditLog } from "../src/audit.js";
+import { createCredentialStore } from "../src/credentials.js";
+import { callApi } from "../src/proxy.js";
+import { createRateLimiter } from "../src/ratelimit.js";
+import { ServiceEntry } from "../src/services.js";
+import { json, startServer, tempDir } from "./helpers.js";
+
+const temp = tempDir("credentials-test");
+after(() => temp.remove());
+
+// Echoes the request's auth back, as a careless upstream might
+const upstream = await startServer((req, res) => {
+  const url = new URL(req.url!, "http://localhost");
+  json(res, 200, {
+    authorization: req.headers.authorization ?? null,
+    apiKey: req.headers["x-api-key"] ?? url.searchParams.get("key"),
+    count: 12345,
+  });
+});
+after(() => upstream.close());
+
+function store(auth: Record<string, unknown>, secrets: Record<string, string> = {}) {
+  const authFile = join(temp.dir, "auth.json");
+  const secretsFile = join(temp.dir, "secrets.json");
+  writeFileSync(authFile, JSON.stringify(auth));
+  writeFileSync(secretsFile, JSON.stringify(secrets));
+  return createCredentialStore(authFile, secretsFile);
+}
+
+const origins = ["https://api.example.com"];
+
+before(() => {
+  process.env.TEST_ORDERS_TOKEN = "1234";
+  process.env.TEST_ORDERS_KEY = "key-from-env";
+});
+after(() => {
+  delete process.env.TEST_ORDERS_TOKEN;
+  delete process.env.TEST_ORDERS_KEY;
+});
+
+describe("credential store", () => {
+  it("injects header, bearer, basic and query credentials", () => {
+    const credentials = store(
+      {
+        header: { type: "header", name: "X-Api-Key", value: { env: "TEST_ORDERS_KEY" }, origins },
+        bearer: { type: "bearer", token: { secret: "orders" }, origins },
+        basic: { type: "basic", username: "svc", password: { secret: "orders" }, origins },
+        query: { type: "query", name: "key", value: { env: "TEST_ORDERS_KEY" }, origins },
+      },
+      { orders: "s3cret" }
+    );
+
+    const injected = (service: string) => {
+      const url = new URL("https://api.example.com/v1/orders");
+      const headers: Record<string, string> = {};
+      credentials.apply(service, url, headers);
+      return { url: url.toString(), headers };
+    };
+
+    assert.deepEqual(injected("header").headers, { "X-Api-Key": "key-from-env" });
+    assert.deepEqual(injected("bearer").headers, { Authorization: "Bearer s3cret" });
+    assert.deepEqual(injected("basic").headers, {
+      Authorization: `Basic ${Buffer.from("svc:s3cret").toString("base64")}`,
+    });
+    assert.equal(injected("query").url, "https://api.example.com/v1/orders?key=key-from-env");
+  });
+
+  it("replaces caller-supplied values unless the entry allows overriding", () => {
+    const credentials = store({
+      fixed: { type: "bearer", token: { env: "TEST_ORDERS_TOKEN" }, origins },
+      open: { type: "bearer", token: { env: "TEST_ORDERS_TOKEN" }, origins, allowOverride: true },
+    });
+    const url = new URL("https://api.example.com/");
+
+    const fixed = { authorization: "Bearer mine" };
+    credentials.apply("fixed", url, fixed);
+    assert.deepEqual(fixed, { Authorization: "Bearer 1234" });
+
+    const open = { authorization: "Bearer mine" };
+    credentials.apply("open", url, open);
+    assert.deepEqual(open, { authorization: "Bearer mine" });
+  });
+
+  it("sends nothing to an origin the entry doesn't list", (t) => {
+    const warn = t.mock.method(console, "warn", () => {});
+    const credentials = store({ orders: { type: "bearer", token: { env: "TEST_ORDERS_TOKEN" }, origins } });
+    const headers: Record<string, string> = {};
+    credentials.apply("orders", new URL("https://evil.example.com/"), headers);
+
+    assert.deepEqual(headers, {});
+    assert.equal(warn.mock.callCount(), 1);
+    assert.equal(credentials.has("orders", "https://api.example.com/v2"), true);
+    assert.equal(credentials.has("orders", "https://evil.example.com"), false);
+  });
+
+  it("skips entries without origins", (t) => {
+    const warn = t.mock.method(console, "warn", () => {});
+    const credentials = store({ orders: { type: "bearer", token: { env: "TEST_ORDERS_TOKEN" } } });
+
+    assert.equal(credentials.has("orders", "https://api.example.com"), false);
+    assert.match(String(warn.mock.calls[0].arguments[0]), /Skipping auth config for "orders"/);
+  });
+
+  it("redacts resolved secrets, including the encoded basic token", () => {
+    const credentials = store(
+      { orders: { type: "basic", username: "svc", password: { secret: "orders" }, origins } },
+      { orders: "s3cret" }
+    );
+    const basic = Buffer.from("svc:s3cret").toString("base64");
+    assert.equal(credentials.redact(`pw=s3cret auth=Basic ${basic}`), "pw=[REDACTED] auth=Basic [REDACTED]");
+  });
+});
+
+describe("callApi credentials", () => {
+  it("injects the service's credentials and redacts them from the result only", async (t) => {
+    const audit = tempDir("credentials-audit");
+    t.after(() => audit.remove());
+    const service: ServiceEntry = { name: "orders", baseUrl: upstream.url, tags: [], source: "env" };
+    const upstreamCalls = mock.fn();
+
+    const result = await callApi(
+      {
+        getServices: () => ({ orders: service }),
+        fetchSpec: async () => ({ spec: null }),
+        credentials: store({ orders: { type: "bearer", token: { env: "TEST_ORDERS_TOKEN" }, origins: [upstream.url] } }),
+        audit: createAuditLog({ dir: audit.dir, retentionDays: 30, maxBytes: 1_000_000, redactFields: [] }),
+        rateLimiter: createRateLimiter({
+          key: { capacity: 10, refillPerSecond: 1 },
+          service: { capacity: 10, refillPerSecond: 1 },
+          maxConcurrent: 1,
+          maxQueue: 1,
+          queueTimeoutMs: 1_000,
+        }),
+        onUpstreamCall: upstreamCalls,
+      },
+      { service: "orders", method: "GET", path: "/orders" },
+      { apiKey: "k" }
+    );
+
+    assert.deepEqual(result, {
+      status: 200,
+      ok: true,
+      // The secret happens to be a substring of the count; only strings are scrubbed
+      data: { authorization: "Bearer [REDACTED]", apiKey: null, count: 12345 },
+    });
+    assert.equal(upstreamCalls.mock.callCount(), 1);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  allowedEnvironments,
+  environmentKey,
+  resolveEnvironment,
+  selectEnvironment,
+  servicesInEnv,
+} from "../src/environments.js";
+import { ServiceEntry } from "../src/services.js";
+
+const orders: ServiceEntry = {
+  name: "orders",
+  baseUrl: "https://orders.example.com",
+  specPath: "/openapi.json",
+  healthPath: "/health",
+  tags: [],
+  source: "env",
+  defaultEnv: "production",
+  environments: {
+    staging: { baseUrl: "https://orders-staging.example.com", specFile: "specs/orders-staging.yaml" },
+    canary: { baseUrl: "https://orders-canary.example.com", healthPath: "/ready" },
+  },
+};
+
+const billing: ServiceEntry = { name: "billing", baseUrl: "https://billing.example.com", tags: [], source: "env" };
+
+describe("resolveEnvironment", () => {
+  it("describes the default environment with the top-level fields", () => {
+    const entry = resolveEnvironment(orders)!;
+    assert.equal(entry.env, "production");
+    assert.equal(entry.baseUrl, "https://orders.example.com");
+  });
+
+  it("swaps in a named environment's base URL and spec location", () => {
+    const staging = resolveEnvironment(orders, "staging")!;
+    assert.equal(staging.baseUrl, "https://orders-staging.example.com");
+    assert.equal(staging.specFile, "specs/orders-staging.yaml");
+    // A spec file replaces the default spec path rather than adding to it
+    assert.equal(staging.specPath, undefined);
+    assert.equal(staging.healthPath, "/health");
+
+    const canary = resolveEnvironment(orders, "canary")!;
+    assert.equal(canary.specPath, "/openapi.json");
+    assert.equal(canary.healthPath, "/ready");
+  });
+
+  it("returns undefined for an environment the service doesn't have", () => {
+    assert.equal(resolveEnvironment(orders, "dev"), undefined);
+  });
+});
+
+describe("selectEnvironment", () => {
+  it("uses the requested environment", () => {
+    const selection = selectEnvironment(orders, {}, "staging");
+    assert.ok("entry" in selection);
+    assert.equal(selection.entry.env, "staging");
+  });
+
+  it("falls back to the key's default when the service has it, else the service's", () => {
+    const policy = { defaultEnv: "staging" };
+    const own = selectEnvironment(orders, policy);
+    const other = selectEnvironment(billing, policy);
+    assert.ok("entry" in own && "entry" in other);
+    assert.equal(own.entry.env, "staging");
+    assert.equal(other.entry.env, "default");
+  });
+
+  it("answers 404 for an unknown environment and 403 outside the allowlist", () => {
+    const policy = { allowEnvs: ["staging"] };
+    assert.deepEqual(selectEnvironment(orders, policy, "dev"), {
+      error: 'Service "orders" has no environment "dev"',
+      status: 404,
+      environments: ["staging"],
+    });
+    assert.deepEqual(selectEnvironment(orders, policy), {
+      error: 'API key may not use environment "production" of "orders"',
+      status: 403,
+      environments: ["staging"],
+    });
+  });
+});
+
+describe("servicesInEnv", () => {
+  it("resolves each service and leaves out those without a usable environment", () => {
+    const services = servicesInEnv({ orders, billing }, { defaultEnv: "staging", allowEnvs: ["staging"] });
+    assert.deepEqual(Object.keys(services), ["orders"]);
+    assert.equal(services.orders.baseUrl, "https://orders-staging.example.com");
+  });
+});
+
+describe("allowedEnvironments and environmentKey", () => {
+  it("lists the default environment first, filtered by the allowlist", () => {
+    assert.deepEqual(allowedEnvironments(orders, {}), ["production", "staging", "canary"]);
+    assert.deepEqual(allowedEnvironments(orders, { allowEnvs: ["canary", "production"] }), ["production", "canary"]);
+  });
+
+  it("keys the default environment by name and the others by name@env", () => {
+    assert.equal(environmentKey(resolveEnvironment(orders)!), "orders");
+    assert.equal(environmentKey(resolveEnvironment(orders, "staging")!), "orders@staging");
+    assert.equal(environmentKey(billing), "billing");
+  });
+});
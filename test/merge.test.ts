@@ -0,0 +1,98 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mergeSpecs } from "../src/merge.js";
+
+const user = { type: "object", properties: { id: { type: "string" } } };
+
+const users = {
+  openapi: "3.0.3",
+  info: { title: "Users" },
+  servers: [{ url: "/api" }],
+  paths: {
+    "/users": {
+      parameters: [{ name: "X-Tenant", in: "header" }],
+      get: { operationId: "list", responses: { "200": { $ref: "#/components/responses/UserList" } } },
+    },
+    "/health": { get: { operationId: "health", responses: {} } },
+  },
+  components: {
+    schemas: { User: user, Error: { type: "object" } },
+    responses: { UserList: { description: "ok", content: { "application/json": { schema: { $ref: "#/components/schemas/User" } } } } },
+  },
+};
+
+const orders = {
+  openapi: "3.0.3",
+  info: { title: "Orders" },
+  paths: {
+    "/orders": {
+      get: { operationId: "list", responses: { "200": { content: { "application/json": { schema: { $ref: "#/components/schemas/User" } } } } } },
+    },
+    "/health": { get: { operationId: "health", responses: {} } },
+  },
+  components: {
+    // Same name, different definition; Error is identical and shared
+    schemas: { User: { type: "object", properties: { buyer: { type: "string" } } }, Error: { type: "object" } },
+  },
+};
+
+function merged() {
+  return mergeSpecs([
+    { name: "users", baseUrl: "https://users.example.com/", spec: users },
+    { name: "orders", baseUrl: "https://orders.example.com", spec: orders },
+  ]);
+}
+
+describe("mergeSpecs", () => {
+  it("tags each operation with its service and points it at the service", () => {
+    const doc = merged();
+    const list = doc.paths!["/users"].get as Record<string, unknown>;
+    assert.deepEqual(list.tags, ["users"]);
+    assert.equal(list["x-registry-service"], "users");
+    // Relative server URLs resolve against the base URL
+    assert.deepEqual(list.servers, [{ url: "https://users.example.com/api", description: "users" }]);
+    // Path-level parameters are folded into the operation
+    assert.deepEqual(list.parameters, [{ name: "X-Tenant", in: "header" }]);
+  });
+
+  it("renames colliding components and rewrites their refs", () => {
+    const doc = merged();
+    assert.deepEqual(Object.keys(doc.components!.schemas).sort(), ["Error", "Orders_User", "User"]);
+    const response = (doc.paths!["/orders"].get as { responses: Record<string, unknown> }).responses["200"];
+    assert.deepEqual(response, { content: { "application/json": { schema: { $ref: "#/components/schemas/Orders_User" } } } });
+    assert.deepEqual(doc["x-registry-merge-report"].renamedComponents, [
+      { service: "orders", section: "schemas", from: "User", to: "Orders_User" },
+    ]);
+  });
+
+  it("makes operationIds unique", () => {
+    const doc = merged();
+    assert.equal((doc.paths!["/orders"].get as { operationId: string }).operationId, "Orders_list");
+    assert.deepEqual(
+      doc["x-registry-merge-report"].renamedOperationIds.map((r) => r.to),
+      ["Orders_list", "Orders_health"]
+    );
+  });
+
+  it("moves an operation another service already defines under /<service> through the proxy", () => {
+    const doc = merged();
+    const health = doc.paths!["/orders/health"].get as Record<string, unknown>;
+    assert.deepEqual(health.servers, [{ url: "/proxy", description: "orders through the registry" }]);
+    assert.deepEqual(doc["x-registry-merge-report"].prefixedPaths, [
+      { service: "orders", method: "GET", from: "/health", to: "/orders/health" },
+    ]);
+    assert.deepEqual(doc["x-registry-merge-report"].dropped, []);
+  });
+
+  it("drops services without a usable OpenAPI 3 spec and reports why", () => {
+    const doc = mergeSpecs([
+      { name: "down", baseUrl: "https://down.example.com", spec: null, error: "ECONNREFUSED" },
+      { name: "legacy", baseUrl: "https://legacy.example.com", spec: { swagger: "2.0", paths: {} } },
+    ]);
+    assert.deepEqual(doc["x-registry-merge-report"].dropped, [
+      { service: "down", reason: "ECONNREFUSED" },
+      { service: "legacy", reason: "Not an OpenAPI 3.x document" },
+    ]);
+    assert.deepEqual(doc.paths, {});
+  });
+});
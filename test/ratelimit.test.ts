@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createConcurrencyLimiter,
+  createRateLimiter,
+  createTokenBuckets,
+  RateLimitError,
+} from "../src/ratelimit.js";
+
+beforeEach(() => mock.timers.enable({ apis: ["Date", "setTimeout"] }));
+afterEach(() => mock.timers.reset());
+
+describe("token buckets", () => {
+  it("allows a burst, then refills at the configured rate", () => {
+    const buckets = createTokenBuckets({ capacity: 3, refillPerSecond: 1 });
+    assert.deepEqual([buckets.take("k"), buckets.take("k"), buckets.take("k")], [0, 0, 0]);
+    assert.equal(buckets.take("k"), 1);
+
+    mock.timers.tick(1_000);
+    assert.equal(buckets.take("k"), 0);
+    assert.equal(buckets.take("k"), 1);
+  });
+
+  it("never refills past the capacity", () => {
+    const buckets = createTokenBuckets({ capacity: 2, refillPerSecond: 10 });
+    mock.timers.tick(60_000);
+    assert.deepEqual([buckets.take("k"), buckets.take("k")], [0, 0]);
+    assert.ok(buckets.take("k") > 0);
+  });
+
+  it("keeps one bucket per key and applies per-key overrides", () => {
+    const buckets = createTokenBuckets({ capacity: 1, refillPerSecond: 1 });
+    buckets.take("a");
+    assert.equal(buckets.take("b"), 0);
+
+    assert.equal(buckets.take("c", { capacity: 2, refillPerSecond: 0.5 }), 0);
+    assert.equal(buckets.take("c", { capacity: 2, refillPerSecond: 0.5 }), 0);
+    // One token at 0.5/s takes two seconds
+    assert.equal(buckets.take("c", { capacity: 2, refillPerSecond: 0.5 }), 2);
+  });
+
+  it("counts allowed and rejected takes", () => {
+    const buckets = createTokenBuckets({ capacity: 1, refillPerSecond: 1 });
+    buckets.take("k");
+    buckets.take("k");
+    assert.deepEqual(buckets.usage().k, { tokens: 0, capacity: 1, refillPerSecond: 1, allowed: 1, rejected: 1 });
+  });
+});
+
+describe("concurrency limiter", () => {
+  it("queues calls past the cap and starts them in order", async () => {
+    const limiter = createConcurrencyLimiter({ maxConcurrent: 1, maxQueue: 5, queueTimeoutMs: 1_000 });
+    const order: string[] = [];
+    let release!: () => void;
+    const first = limiter.run("svc", () => new Promise<void>((resolve) => {
+      order.push("first");
+      release = resolve;
+    }));
+    const second = limiter.run("svc", async () => {
+      order.push("second");
+    });
+
+    await Promise.resolve();
+    assert.deepEqual(limiter.usage().svc, { inFlight: 1, queued: 1, maxConcurrent: 1, rejected: 0 });
+    release();
+    await Promise.all([first, second]);
+    assert.deepEqual(order, ["first", "second"]);
+  });
+
+  it("rejects when the queue is full or the wait times out", async () => {
+    const limiter = createConcurrencyLimiter({ maxConcurrent: 1, maxQueue: 1, queueTimeoutMs: 500 });
+    void limiter.run("svc", () => new Promise(() => {}));
+    const queued = limiter.run("svc", async () => "late");
+
+    await assert.rejects(limiter.run("svc", async () => "overflow"), { limit: "concurrency" });
+
+    mock.timers.tick(500);
+    await assert.rejects(queued, (err) => err instanceof RateLimitError && /Timed out/.test(err.message));
+    assert.equal(limiter.usage().svc.rejected, 2);
+  });
+});
+
+describe("rate limiter", () => {
+  const options = {
+    key: { capacity: 1, refillPerSecond: 1 },
+    service: { capacity: 1, refillPerSecond: 1 },
+    maxConcurrent: 1,
+    maxQueue: 1,
+    queueTimeoutMs: 1_000,
+  };
+
+  it("throws a key limit error with the wait time", () => {
+    const limiter = createRateLimiter(options);
+    limiter.checkKey("alice");
+    assert.throws(() => limiter.checkKey("alice"), { limit: "key", retryAfterSeconds: 1 });
+  });
+
+  it("limits calls per service before they take a concurrency slot", async () => {
+    const limiter = createRateLimiter(options);
+    assert.equal(await limiter.runForService("orders", async () => "ok"), "ok");
+    await assert.rejects(limiter.runForService("orders", async () => "again"), { limit: "service" });
+    assert.equal(await limiter.runForService("orders@staging", async () => "other bucket"), "other bucket");
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { OpenApiSpec } from "../src/openapi.js";
+import { findOperation, validateCall } from "../src/validate.js";
+
+const spec: OpenApiSpec = {
+  openapi: "3.0.0",
+  info: { title: "Users", version: "1" },
+  paths: {
+    "/users": {
+      get: {
+        parameters: [
+          { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: 100 } },
+          { name: "status", in: "query", schema: { type: "string", enum: ["active", "banned"] } },
+          { name: "ids", in: "query", schema: { type: "array", items: { type: "integer" } } },
+        ],
+        responses: {},
+      },
+      post: {
+        requestBody: {
+          required: true,
+          content: { "application/json": { schema: { $ref: "#/components/schemas/NewUser" } } },
+        },
+        responses: {},
+      },
+    },
+    "/users/me": { get: { responses: {} } },
+    "/users/{id}": {
+      get: {
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer" } }],
+        responses: {},
+      },
+    },
+  },
+  components: {
+    schemas: {
+      NewUser: {
+        type: "object",
+        required: ["email"],
+        additionalProperties: false,
+        properties: {
+          email: { type: "string", minLength: 3 },
+          age: { type: "integer", minimum: 0 },
+          tags: { type: "array", maxItems: 2, items: { type: "string" } },
+        },
+      },
+    },
+  },
+};
+
+describe("findOperation", () => {
+  it("prefers literal segments over templated ones", () => {
+    assert.equal(findOperation(spec, "GET", "/users/me").operation?.path, "/users/me");
+    assert.deepEqual(findOperation(spec, "GET", "/users/42").pathParams, { id: "42" });
+  });
+
+  it("suggests the closest operation when nothing matches", () => {
+    const match = findOperation(spec, "GET", "/user");
+    assert.equal(match.operation, undefined);
+    assert.equal(match.closest?.path, "/users");
+  });
+});
+
+describe("validateCall", () => {
+  it("accepts a call that matches the operation", () => {
+    const result = validateCall(spec, { method: "GET", path: "/users?limit=10&status=active&ids=1,2" });
+    assert.deepEqual(result.errors, []);
+    assert.equal(result.operation?.path, "/users");
+  });
+
+  it("coerces and checks path and query parameters", () => {
+    assert.deepEqual(validateCall(spec, { method: "GET", path: "/users/abc" }).errors, [
+      { location: "path.id", message: "must be integer" },
+    ]);
+    assert.deepEqual(validateCall(spec, { method: "GET", path: "/users?limit=0&status=gone&ids=1,x" }).errors, [
+      { location: "query.limit", message: "must be >= 1" },
+      { location: "query.status", message: 'must be one of "active", "banned"' },
+      { location: "query.ids[1]", message: "must be integer" },
+    ]);
+  });
+
+  it("checks the body against its $ref schema", () => {
+    const result = validateCall(spec, {
+      method: "POST",
+      path: "/users",
+      body: { email: "x", age: -1, tags: ["a", "b", "c"], extra: true },
+    });
+    assert.deepEqual(result.errors, [
+      { location: "body.email", message: "must be at least 3 characters" },
+      { location: "body.age", message: "must be >= 0" },
+      { location: "body.tags", message: "must have at most 2 items" },
+      { location: "body.extra", message: "is not an allowed property" },
+    ]);
+  });
+
+  it("requires a required body and its required fields", () => {
+    assert.deepEqual(validateCall(spec, { method: "POST", path: "/users" }).errors, [
+      { location: "body", message: "is required" },
+    ]);
+    assert.deepEqual(validateCall(spec, { method: "POST", path: "/users", body: {} }).errors, [
+      { location: "body.email", message: "is required" },
+    ]);
+  });
+
+  it("reports an undocumented operation with the closest match", () => {
+    const result = validateCall(spec, { method: "DELETE", path: "/users" });
+    assert.equal(result.operation, undefined);
+    assert.match(result.errors[0].message, /No documented operation matches DELETE \/users/);
+    assert.equal(result.closest?.path, "/users");
+  });
+
+  it("decodes path parameters and rejects malformed percent-encoding", () => {
+    assert.deepEqual(validateCall(spec, { method: "GET", path: "/users/4%32" }).pathParams, { id: "42" });
+    assert.deepEqual(validateCall(spec, { method: "GET", path: "/users/%zz" }).errors, [
+      { location: "path", message: 'Path segment "%zz" is not valid percent-encoding' },
+    ]);
+  });
+});